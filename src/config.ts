@@ -0,0 +1,57 @@
+import * as vscode from "vscode";
+import { PricingTable, DEFAULT_PRICING } from "./usage";
+import { DetectionConfig, DEFAULT_DETECTION_CONFIG } from "./conversationParser";
+import { ClaudeDataDir, DataDirSetting, resolveDataDirs } from "./dataDirs";
+
+/**
+ * Accessors for the claudeConversations.* settings.
+ */
+function section(): vscode.WorkspaceConfiguration {
+  return vscode.workspace.getConfiguration("claudeConversations");
+}
+
+export function getPricingTable(): PricingTable {
+  return section().get<PricingTable>("pricing", DEFAULT_PRICING);
+}
+
+export function getDataDirectories(): ClaudeDataDir[] {
+  return resolveDataDirs(section().get<DataDirSetting[]>("dataDirectories", []));
+}
+
+export function getDetectionConfig(): DetectionConfig {
+  const config = section();
+  const d = DEFAULT_DETECTION_CONFIG;
+  return {
+    permissionTools: config.get<string[]>("detection.permissionTools", d.permissionTools),
+    permissionDelayMs: config.get<number>("detection.permissionDelayMs", d.permissionDelayMs),
+    staleAfterMs: config.get<number>("detection.staleAfterMinutes", d.staleAfterMs / 60_000) * 60_000,
+    tailBytes: config.get<number>("detection.tailKilobytes", d.tailBytes / 1024) * 1024,
+  };
+}
+
+/**
+ * Days after which deleted conversations are purged; 0 keeps them forever.
+ */
+export function getTrashAutoPurgeDays(): number {
+  return section().get<number>("trash.autoPurgeDays", 0);
+}
+
+/**
+ * Hours after a session finished before "Close All Stale Claude Tabs" closes its tab.
+ */
+export function getStaleTabHours(): number {
+  return section().get<number>("tabs.staleAfterHours", 24);
+}
+
+export interface NotificationSettings {
+  onPermission: boolean;
+  onFinished: boolean;
+}
+
+export function getNotificationSettings(): NotificationSettings {
+  const config = section();
+  return {
+    onPermission: config.get<boolean>("notifications.onPermission", true),
+    onFinished: config.get<boolean>("notifications.onFinished", true),
+  };
+}
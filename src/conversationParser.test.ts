@@ -2,7 +2,13 @@ import { describe, it, expect, afterEach, vi } from "vitest";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
-import { readTailMetadata } from "./conversationParser";
+import {
+  readTailMetadata,
+  loadConversationsForProject,
+  DEFAULT_DETECTION_CONFIG,
+  DetectionConfig,
+  classifyApiError,
+} from "./conversationParser";
 
 // --- helpers ---
 
@@ -116,25 +122,25 @@ function nonConversationRecord(type: string) {
 describe("Group 0: Error / Empty file", () => {
   it("T0.1 - file does not exist", () => {
     const result = readTailMetadata("/tmp/nonexistent-file-abc123.jsonl");
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T0.2 - empty file (0 bytes)", () => {
     const f = createTempRaw("");
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T0.3 - whitespace-only lines", () => {
     const f = createTempRaw("\n\n   \n  \n");
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T0.4 - non-JSON lines only", () => {
     const f = createTempRaw("not json\nstill not json\n");
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -150,7 +156,7 @@ describe("Group 1: Summary record", () => {
       summaryRecord(),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T1.2 - summary followed by non-conversation records", () => {
@@ -161,7 +167,7 @@ describe("Group 1: Summary record", () => {
       nonConversationRecord("file-history-snapshot"),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -175,7 +181,7 @@ describe("Group 2: Non-conversation records only", () => {
       nonConversationRecord("file-history-snapshot"),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T2.2 - mixed non-conversation records", () => {
@@ -185,7 +191,7 @@ describe("Group 2: Non-conversation records only", () => {
       nonConversationRecord("file-history-snapshot"),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -198,7 +204,7 @@ describe("Group 3: Sidechain messages", () => {
       userMsg("hello", { isSidechain: true }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T3.2 - sidechain assistant only", () => {
@@ -206,7 +212,7 @@ describe("Group 3: Sidechain messages", () => {
       assistantMsg("hi", { isSidechain: true }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T3.3 - sidechain then real user", () => {
@@ -215,7 +221,7 @@ describe("Group 3: Sidechain messages", () => {
       assistantMsg("hi", { stop_reason: "end_turn", isSidechain: true }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -228,7 +234,7 @@ describe("Group 4: Synthetic assistant messages", () => {
       assistantMsg("interrupted", { model: "<synthetic>" }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T4.2 - synthetic assistant then real user (walking backward)", () => {
@@ -237,7 +243,7 @@ describe("Group 4: Synthetic assistant messages", () => {
       assistantMsg("interrupted", { model: "<synthetic>" }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T4.3 - synthetic assistant then assistant(end_turn) (walking backward)", () => {
@@ -246,7 +252,7 @@ describe("Group 4: Synthetic assistant messages", () => {
       assistantMsg("interrupted", { model: "<synthetic>" }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -259,7 +265,7 @@ describe("Group 5: User interrupt messages", () => {
       userMsg([interruptBlock()]),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "interrupted", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T5.2 - interrupt with additional content blocks", () => {
@@ -267,7 +273,7 @@ describe("Group 5: User interrupt messages", () => {
       userMsg([interruptBlock(), textBlock("other stuff")]),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "interrupted", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T5.3 - string content with interrupt text (NOT detected as interrupt)", () => {
@@ -276,7 +282,7 @@ describe("Group 5: User interrupt messages", () => {
     ]);
     const result = readTailMetadata(f);
     // String content is NOT checked for interrupt pattern - only array content is
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -289,7 +295,7 @@ describe("Group 6: tool_result user messages", () => {
       userMsg([toolResultBlock("ok")]),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T6.2 - tool_result then assistant(tool_use:Bash) → toolResultSeen", () => {
@@ -299,7 +305,7 @@ describe("Group 6: tool_result user messages", () => {
     ]);
     const result = readTailMetadata(f);
     // toolResultSeen path: always isWaiting=true regardless of permission tool
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T6.3 - tool_result then assistant(tool_use:Read) → toolResultSeen", () => {
@@ -308,7 +314,7 @@ describe("Group 6: tool_result user messages", () => {
       userMsg([toolResultBlock("file content")]),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T6.5 - interrupt + tool_result mixed (interrupt in first block)", () => {
@@ -317,7 +323,7 @@ describe("Group 6: tool_result user messages", () => {
     ]);
     const result = readTailMetadata(f);
     // Interrupt check fires first (content[0].text starts with interrupt pattern)
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "interrupted", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -330,7 +336,7 @@ describe("Group 7: isMeta user messages", () => {
       userMsg("system info", { isMeta: true }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T7.2 - isMeta then real user", () => {
@@ -339,7 +345,7 @@ describe("Group 7: isMeta user messages", () => {
       userMsg("system info", { isMeta: true }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T7.3 - isMeta then assistant(end_turn)", () => {
@@ -348,7 +354,7 @@ describe("Group 7: isMeta user messages", () => {
       userMsg("system info", { isMeta: true }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -361,7 +367,7 @@ describe("Group 8: Real user message (waiting)", () => {
       userMsg("Please fix the bug"),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T8.2 - array content user message", () => {
@@ -369,7 +375,7 @@ describe("Group 8: Real user message (waiting)", () => {
       userMsg([textBlock("hello")]),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T8.3 - user message after non-conversation records", () => {
@@ -379,7 +385,7 @@ describe("Group 8: Real user message (waiting)", () => {
       nonConversationRecord("custom-title"),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -392,7 +398,7 @@ describe("Group 9: Assistant completed states", () => {
       assistantMsg("Done!", { stop_reason: "end_turn" }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T9.2 - stop_reason: stop_sequence", () => {
@@ -400,7 +406,7 @@ describe("Group 9: Assistant completed states", () => {
       assistantMsg("Done!", { stop_reason: "stop_sequence" }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T9.3 - stop_reason: refusal", () => {
@@ -408,7 +414,7 @@ describe("Group 9: Assistant completed states", () => {
       assistantMsg("I can't do that.", { stop_reason: "refusal" }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "errored", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -424,7 +430,7 @@ describe("Group 10: Assistant with permission tool (no toolResultSeen)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 
   it("T10.2 - Bash, fresh timestamp (<3s) → isWaiting", () => {
@@ -436,7 +442,7 @@ describe("Group 10: Assistant with permission tool (no toolResultSeen)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T10.3 - Edit, no timestamp → age=Infinity → isToolUseWaiting", () => {
@@ -453,7 +459,7 @@ describe("Group 10: Assistant with permission tool (no toolResultSeen)", () => {
       },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 
   it("T10.4 - ExitPlanMode, exactly 3000ms → age <= 3000 → isWaiting (boundary)", () => {
@@ -466,7 +472,7 @@ describe("Group 10: Assistant with permission tool (no toolResultSeen)", () => {
     ]);
     const result = readTailMetadata(f);
     // 3000 > 3000 is false, so isToolUseWaiting = false, isWaiting = true
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T10.5 - AskUserQuestion, 3001ms → isToolUseWaiting", () => {
@@ -478,7 +484,7 @@ describe("Group 10: Assistant with permission tool (no toolResultSeen)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 
   it("T10.6 - Write, old timestamp", () => {
@@ -489,7 +495,7 @@ describe("Group 10: Assistant with permission tool (no toolResultSeen)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 
   it("T10.7 - NotebookEdit, old timestamp", () => {
@@ -500,7 +506,7 @@ describe("Group 10: Assistant with permission tool (no toolResultSeen)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 });
 
@@ -513,7 +519,7 @@ describe("Group 11: Assistant with non-permission tool (no toolResultSeen)", ()
       assistantMsg([toolUseBlock("Read")], { stop_reason: null }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T11.2 - Grep → isWaiting", () => {
@@ -521,7 +527,7 @@ describe("Group 11: Assistant with non-permission tool (no toolResultSeen)", ()
       assistantMsg([toolUseBlock("Grep")], { stop_reason: null }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T11.3 - unknown tool name → isWaiting", () => {
@@ -529,7 +535,7 @@ describe("Group 11: Assistant with non-permission tool (no toolResultSeen)", ()
       assistantMsg([toolUseBlock("MyCustomTool")], { stop_reason: null }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -546,7 +552,7 @@ describe("Group 12: Assistant with tool_use + toolResultSeen", () => {
       userMsg([toolResultBlock("command output")]),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T12.2 - non-permission tool (Read) + toolResultSeen → isWaiting", () => {
@@ -555,7 +561,7 @@ describe("Group 12: Assistant with tool_use + toolResultSeen", () => {
       userMsg([toolResultBlock("file content")]),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -568,7 +574,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       assistantMsg("I'm thinking...", { stop_reason: null }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.2 - stop_reason: undefined (missing field)", () => {
@@ -585,7 +591,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.3 - no message field at all", () => {
@@ -593,7 +599,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       { type: "assistant", sessionId: "sess-1" },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.4 - array content but no tool_use blocks", () => {
@@ -601,7 +607,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       assistantMsg([textBlock("thinking...")], { stop_reason: null }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.5 - tool_use block but name is undefined", () => {
@@ -610,7 +616,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
     ]);
     const result = readTailMetadata(f);
     // tool_use with no name is not found by .find() condition (block.name !== undefined)
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.6 - stop_reason: max_tokens (not a terminal stop reason)", () => {
@@ -618,7 +624,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       assistantMsg("truncated", { stop_reason: "max_tokens" }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.7 - empty array content, stop_reason null", () => {
@@ -626,7 +632,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       assistantMsg([], { stop_reason: null }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.8 - output_tokens=1 + 短いテキスト(tool_useなし) → 中間プレースホルダーとしてスキップ", () => {
@@ -638,7 +644,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
     ]);
     const result = readTailMetadata(f);
     // Text ≤200 chars → still treated as intermediate placeholder, skipped
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13.8b - output_tokens=1 + 長いテキスト(>200文字, tool_useなし) → 中断と判定（待機しない）", () => {
@@ -657,7 +663,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
     ]);
     const result = readTailMetadata(f);
     // Long text (>200 chars) with no tool_use → treated as abandoned final response
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13.9 - 中間プレースホルダー: output_tokens=1 + テキスト短い → スキップ（待機しない）", () => {
@@ -669,7 +675,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
     ]);
     const result = readTailMetadata(f);
     // Placeholder with short text is skipped; no other messages → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13.10 - 正常ストリーミング: output_tokens=100 + テキストあり → 待機中", () => {
@@ -680,7 +686,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.11 - usageなし → 既存動作に変更なし (isWaiting: true)", () => {
@@ -690,7 +696,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13.12 - output_tokens=0 + テキストあり → 中間プレースホルダーとしてスキップ", () => {
@@ -702,7 +708,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
     ]);
     const result = readTailMetadata(f);
     // Placeholder skipped; no other messages → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13.13 - output_tokens=1 + string content → 中間プレースホルダーとしてスキップ", () => {
@@ -714,7 +720,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
     ]);
     const result = readTailMetadata(f);
     // string content → textLength is 0 → placeholder skipped → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13.14 - output_tokens=2 + 長いテキスト → 中断と判定（比率ベース）", () => {
@@ -728,7 +734,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
     ]);
     const result = readTailMetadata(f);
     // textLength > 10 && output_tokens (2) < textLength / 20 → abandoned
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13.15 - output_tokens がテキスト量に見合う → 正常ストリーミング", () => {
@@ -740,7 +746,7 @@ describe("Group 13: Assistant streaming (no tool_use)", () => {
       }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -758,7 +764,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     ]);
     const result = readTailMetadata(f);
     // Placeholder skipped, no other messages → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13b.2 - プレースホルダー(tool_use)の前に実ユーザーメッセージ → 待機中", () => {
@@ -772,7 +778,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     ]);
     const result = readTailMetadata(f);
     // Placeholder skipped, real user message found → isWaiting
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13b.3 - プレースホルダー(tool_use)の前にassistant(end_turn) → 待機しない", () => {
@@ -786,7 +792,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     ]);
     const result = readTailMetadata(f);
     // Placeholder skipped, end_turn found → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13b.4 - 複数プレースホルダー → すべてスキップされる", () => {
@@ -803,7 +809,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     ]);
     const result = readTailMetadata(f);
     // Both placeholders skipped, end_turn found → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13b.5 - output_tokens=2 + tool_use → 通常のtool_use検出", () => {
@@ -816,7 +822,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     ]);
     const result = readTailMetadata(f);
     // output_tokens > 1 → not a placeholder → normal tool_use detection
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 
   it("T13b.6 - output_tokens=1 + tool_use + 長いテキスト → プレースホルダーとしてスキップ", () => {
@@ -832,7 +838,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     ]);
     const result = readTailMetadata(f);
     // Placeholder skipped; no other messages → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13b.7 - 長いセッション: 中間テキスト(output_tokens=1)の前にtool_use → 正しくtool_waiting検出", () => {
@@ -860,7 +866,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     const result = readTailMetadata(f);
     // tool_result → toolResultSeen, tool_use placeholder → skip, text placeholder → skip,
     // tool_result → toolResultSeen (already), tool_use(Bash, out_tok=19) + toolResultSeen → isWaiting
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T13b.7b - 短いテキスト(output_tokens=1) + file-history-snapshot後のtool_chain → 待機しない", () => {
@@ -884,7 +890,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     const result = readTailMetadata(f);
     // text placeholder (no toolResultSeen yet) → textResponseSeen=true
     // tool_result → toolResultSeen, but textResponseSeen prevents isWaiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T13b.8 - 中間テキスト(output_tokens=1)の前にユーザーメッセージ → 待機中", () => {
@@ -897,7 +903,7 @@ describe("Group 13b: Intermediate placeholder with tool_use", () => {
     ]);
     const result = readTailMetadata(f);
     // Placeholder skipped, real user message found → isWaiting
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -914,7 +920,7 @@ describe("Group 14: Multiple tool_use blocks", () => {
     ]);
     const result = readTailMetadata(f);
     // .find() gets Bash (the first tool_use with name), it's a permission tool, old → isToolUseWaiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 
   it("T14.2 - [Read, Bash] → find() returns first (Read, non-permission)", () => {
@@ -925,7 +931,7 @@ describe("Group 14: Multiple tool_use blocks", () => {
     ]);
     const result = readTailMetadata(f);
     // .find() returns Read first, which is NOT a permission tool → isWaiting
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T14.3 - [Bash, Read] → find() returns first (Bash, permission), old", () => {
@@ -937,7 +943,7 @@ describe("Group 14: Multiple tool_use blocks", () => {
     ]);
     const result = readTailMetadata(f);
     // .find() returns Bash first, permission tool, old → isToolUseWaiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: true });
+    expect(result).toMatchObject({ state: "awaitingPermission", isWaiting: false, isToolUseWaiting: true });
   });
 
   it("T14.4 - tool_use with empty string name → not in PERMISSION_TOOLS", () => {
@@ -946,7 +952,7 @@ describe("Group 14: Multiple tool_use blocks", () => {
     ]);
     const result = readTailMetadata(f);
     // name "" !== undefined, so toolUseBlock is found. PERMISSION_TOOLS.has("") is false
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -960,7 +966,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
       userMsg("sidechain", { isSidechain: true }),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T15.2 - isMeta → tool_result → assistant(tool_use:Bash, old)", () => {
@@ -975,7 +981,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
     const result = readTailMetadata(f);
     // Walking backward: isMeta skipped, tool_result sets toolResultSeen,
     // assistant with tool_use + toolResultSeen → isWaiting (line 290)
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T15.3 - synthetic → interrupt → assistant(tool_use)", () => {
@@ -986,7 +992,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
     ]);
     const result = readTailMetadata(f);
     // Walking backward: synthetic skipped, interrupt user → returns default
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "interrupted", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T15.4 - non-conversation records interleaved between tool_result and assistant", () => {
@@ -997,7 +1003,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
     ]);
     const result = readTailMetadata(f);
     // tool_result sets toolResultSeen, file-history-snapshot skipped, assistant + toolResultSeen
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T15.5 - real user behind sidechain + synthetic + non-conversation", () => {
@@ -1008,7 +1014,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
       nonConversationRecord("custom-title"),
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T15.6 - summary between waiting-state messages cancels waiting", () => {
@@ -1019,7 +1025,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
     ]);
     const result = readTailMetadata(f);
     // Walking backward: "new message" → isWaiting true (returns immediately on first real user)
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T15.7 - assistant(end_turn) as most recent effective message", () => {
@@ -1031,7 +1037,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
     ]);
     const result = readTailMetadata(f);
     // Walking backward: non-conversation skipped, assistant(end_turn) → returns default
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T15.8 - output_tokens=1の最終応答 + file-history-snapshot + tool_result/tool_use → 待機しない", () => {
@@ -1070,7 +1076,7 @@ describe("Group 15: Complex multi-message scenarios", () => {
     const result = readTailMetadata(f);
     // file-history-snapshots skipped, final assistant has long text + no tool_use
     // → treated as abandoned (completed) response, not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -1088,7 +1094,7 @@ describe("Group 16: Content shape edge cases", () => {
     ]);
     const result = readTailMetadata(f);
     // null is not an array, falls through to isMeta check (false), → isWaiting
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T16.2 - user message with no content field", () => {
@@ -1100,7 +1106,7 @@ describe("Group 16: Content shape edge cases", () => {
       },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T16.3 - user message with no message field", () => {
@@ -1108,7 +1114,7 @@ describe("Group 16: Content shape edge cases", () => {
       { type: "user", sessionId: "sess-1" },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T16.4 - user message with empty array content", () => {
@@ -1117,7 +1123,7 @@ describe("Group 16: Content shape edge cases", () => {
     ]);
     const result = readTailMetadata(f);
     // content[0] is undefined, text is "", not interrupt. [].some() is false. Not isMeta. → isWaiting
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T16.5 - assistant with stop_reason 'tool_use' but no tool_use blocks in content", () => {
@@ -1126,7 +1132,7 @@ describe("Group 16: Content shape edge cases", () => {
     ]);
     const result = readTailMetadata(f);
     // "tool_use" is not end_turn/stop_sequence/refusal. Content is string. Falls to isWaiting.
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T16.6 - user with array content, first block has no text (e.g. image)", () => {
@@ -1135,7 +1141,7 @@ describe("Group 16: Content shape edge cases", () => {
     ]);
     const result = readTailMetadata(f);
     // content[0].text is undefined → text = "". Not interrupt. No tool_result. Not isMeta. → isWaiting
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -1169,7 +1175,7 @@ describe("Group 18: JSON with missing/extra type field", () => {
     ]);
     const result = readTailMetadata(f);
     // type is undefined, not "summary", not user/assistant → skip
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T18.2 - JSON object with type = unknown", () => {
@@ -1177,7 +1183,7 @@ describe("Group 18: JSON with missing/extra type field", () => {
       { type: "unknown" },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T18.3 - summary record with no other fields", () => {
@@ -1185,7 +1191,7 @@ describe("Group 18: JSON with missing/extra type field", () => {
       { type: "summary" },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -1207,7 +1213,7 @@ describe("Group 19: 16KB boundary handling", () => {
     expect(stat.size).toBeGreaterThan(16384);
 
     const result = readTailMetadata(filePath);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 
   it("T19.2 - truncated first line in buffer is gracefully skipped", () => {
@@ -1224,7 +1230,7 @@ describe("Group 19: 16KB boundary handling", () => {
     const filePath = createTempRaw(content);
     const result = readTailMetadata(filePath);
     // Truncated line fails JSON.parse → skipped. end_turn → not waiting.
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 });
 
@@ -1246,7 +1252,7 @@ describe("Group 19: System-generated user messages", () => {
     ]);
     const result = readTailMetadata(f);
     // task-notification starts with "<" → skipped, previous assistant end_turn → not waiting
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T19.2 - task-notification + output_tokens=1のassistant → 中断と判定", () => {
@@ -1267,7 +1273,7 @@ describe("Group 19: System-generated user messages", () => {
     ]);
     const result = readTailMetadata(f);
     // output_tokens=1 + text > 100 chars → abandoned; even if not, task-notification skipped
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "completed", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T19.3 - XMLタグで始まるuserメッセージ(system-reminder等) → スキップ", () => {
@@ -1283,7 +1289,7 @@ describe("Group 19: System-generated user messages", () => {
       },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: false, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "awaitingUser", isWaiting: false, isToolUseWaiting: false });
   });
 
   it("T19.4 - 通常のuserメッセージ(テキスト) → 引き続きisWaiting=true", () => {
@@ -1298,7 +1304,7 @@ describe("Group 19: System-generated user messages", () => {
       },
     ]);
     const result = readTailMetadata(f);
-    expect(result).toMatchObject({ isWaiting: true, isToolUseWaiting: false });
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true, isToolUseWaiting: false });
   });
 });
 
@@ -1394,3 +1400,227 @@ describe("Group 20: gitBranch extraction from tail", () => {
     expect(result.gitBranch).toBe("main");
   });
 });
+
+// ============================================================
+// Group 21: 検出設定のカスタマイズ
+// ============================================================
+describe("Group 21: Custom detection config", () => {
+  function config(overrides: Partial<DetectionConfig>): DetectionConfig {
+    return { ...DEFAULT_DETECTION_CONFIG, ...overrides };
+  }
+
+  const oldTimestamp = "2020-01-01T00:00:00Z";
+
+  it("T21.1 - auto-approved tool removed from permissionTools → isWaiting", () => {
+    const f = createTempJsonl([
+      assistantMsg([toolUseBlock("Edit")], { stop_reason: null, timestamp: oldTimestamp }),
+    ]);
+    const result = readTailMetadata(f, config({ permissionTools: ["Bash"] }));
+    expect(result).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
+  });
+
+  it("T21.2 - glob pattern mcp__* matches MCP tools", () => {
+    const f = createTempJsonl([
+      assistantMsg([toolUseBlock("mcp__github__create_issue")], { stop_reason: null, timestamp: oldTimestamp }),
+    ]);
+    expect(readTailMetadata(f)).toMatchObject({ state: "runningTool", isWaiting: true, isToolUseWaiting: false });
+    expect(readTailMetadata(f, config({ permissionTools: ["Bash", "mcp__*"] }))).toMatchObject({
+      state: "awaitingPermission",
+      stateReason: "Waiting for permission to run mcp__github__create_issue",
+      isWaiting: false,
+      isToolUseWaiting: true,
+    });
+    expect(readTailMetadata(f, config({ permissionTools: ["mcp__slack__*"] }))).toMatchObject({
+      state: "runningTool",
+      isWaiting: true,
+      isToolUseWaiting: false,
+    });
+  });
+
+  it("T21.3 - permissionDelayMs moves the permission boundary", () => {
+    vi.spyOn(Date, "now").mockReturnValue(new Date("2026-02-19T12:00:05.000Z").getTime());
+    const f = createTempJsonl([
+      assistantMsg([toolUseBlock("Bash")], { stop_reason: null, timestamp: "2026-02-19T12:00:00.000Z" }),
+    ]);
+    expect(readTailMetadata(f)).toMatchObject({ state: "awaitingPermission", isToolUseWaiting: true });
+    expect(readTailMetadata(f, config({ permissionDelayMs: 10_000 }))).toMatchObject({
+      state: "runningTool",
+      stateReason: "Running Bash",
+      isWaiting: true,
+      isToolUseWaiting: false,
+    });
+  });
+
+  it("T21.4 - smaller tailBytes misses messages before a large record", () => {
+    const f = createTempRaw(
+      JSON.stringify(userMsg("hello")) + "\n" +
+      JSON.stringify({ type: "file-history-snapshot", data: "x".repeat(2000) }) + "\n"
+    );
+    expect(readTailMetadata(f)).toMatchObject({ state: "streaming", isWaiting: true });
+    expect(readTailMetadata(f, config({ tailBytes: 1024 }))).toMatchObject({ state: "completed", isWaiting: false });
+  });
+
+  it("T21.5 - staleAfterMs controls when waiting indicators are suppressed", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "readTailMetadata-test-"));
+    try {
+      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+      fs.writeFileSync(
+        path.join(dir, "s.jsonl"),
+        JSON.stringify(userMsg("hello", { timestamp: fiveMinutesAgo })) + "\n"
+      );
+      const [fresh] = await loadConversationsForProject(dir);
+      expect(fresh.isWaiting).toBe(true);
+      expect(fresh.state).toBe("streaming");
+
+      const [stale] = await loadConversationsForProject(dir, undefined, undefined, config({ staleAfterMs: 60_000 }));
+      expect(stale.isWaiting).toBe(false);
+      expect(stale.state).toBe("stale");
+      expect(stale.stateReason).toBe("Waiting for Claude to respond, but no activity for 5 minutes");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("T21.6 - a finished turn becomes completed once stale; interrupted stays interrupted", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "readTailMetadata-test-"));
+    try {
+      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+      fs.writeFileSync(
+        path.join(dir, "a.jsonl"),
+        [
+          userMsg("hello", { timestamp: fiveMinutesAgo }),
+          assistantMsg([textBlock("hi")], { stop_reason: "end_turn", timestamp: fiveMinutesAgo }),
+        ].map((l) => JSON.stringify(l)).join("\n") + "\n"
+      );
+      fs.writeFileSync(
+        path.join(dir, "b.jsonl"),
+        [
+          userMsg("hello", { timestamp: fiveMinutesAgo }),
+          userMsg([interruptBlock()], { timestamp: fiveMinutesAgo }),
+        ].map((l) => JSON.stringify(l)).join("\n") + "\n"
+      );
+      const states = async (staleAfterMs: number) =>
+        (await loadConversationsForProject(dir, undefined, undefined, config({ staleAfterMs })))
+          .map((c) => c.state)
+          .sort();
+
+      expect(await states(DEFAULT_DETECTION_CONFIG.staleAfterMs)).toEqual(["awaitingUser", "interrupted"]);
+      expect(await states(60_000)).toEqual(["completed", "interrupted"]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ============================================================
+// Group 22: APIエラー・レート制限
+// ============================================================
+describe("Group 22: API errors and rate limits", () => {
+  function apiErrorMsg(text: string, opts: { flagged?: boolean } = {}) {
+    return {
+      ...assistantMsg([textBlock(text)], { model: "<synthetic>", stop_reason: "stop_sequence" }),
+      ...(opts.flagged === false ? {} : { isApiErrorMessage: true }),
+    };
+  }
+
+  function apiErrorRecord(retryAttempt: number, maxRetries: number) {
+    return {
+      type: "system",
+      subtype: "api_error",
+      level: "error",
+      timestamp: "2026-02-19T00:00:05Z",
+      error: { status: 529, error: { type: "error", error: { type: "overloaded_error", message: "Overloaded" } } },
+      retryAttempt,
+      maxRetries,
+    };
+  }
+
+  it("T22.1 - synthetic API error after a user message → errored instead of streaming", () => {
+    const text = 'API Error: 500 {"type":"error","error":{"type":"api_error","message":"Internal server error"}}';
+    const f = createTempJsonl([userMsg("fix this"), apiErrorMsg(text)]);
+    expect(readTailMetadata(f)).toMatchObject({
+      state: "errored",
+      stateReason: "API request failed",
+      error: text,
+      errorKind: "api",
+      isWaiting: false,
+      isToolUseWaiting: false,
+    });
+  });
+
+  it("T22.2 - overload and usage limit messages are classified, even without the flag", () => {
+    const overloaded = createTempJsonl([
+      userMsg("fix this"),
+      apiErrorMsg('API Error: 529 {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}', { flagged: false }),
+    ]);
+    expect(readTailMetadata(overloaded)).toMatchObject({ state: "errored", errorKind: "overloaded" });
+
+    const limited = createTempJsonl([
+      userMsg("fix this"),
+      apiErrorMsg("Claude AI usage limit reached|1760000000", { flagged: false }),
+    ]);
+    expect(readTailMetadata(limited)).toMatchObject({
+      state: "errored",
+      stateReason: "Rate limit reached",
+      errorKind: "rateLimit",
+    });
+  });
+
+  it("T22.3 - a new user message after the error clears it", () => {
+    const f = createTempJsonl([userMsg("fix this"), apiErrorMsg("API Error: Connection error."), userMsg("try again")]);
+    const result = readTailMetadata(f);
+    expect(result).toMatchObject({ state: "streaming", isWaiting: true });
+    expect(result.error).toBeUndefined();
+  });
+
+  it("T22.4 - api_error record while retrying → still streaming, with the error", () => {
+    const f = createTempJsonl([userMsg("fix this"), apiErrorRecord(2, 10)]);
+    expect(readTailMetadata(f)).toMatchObject({
+      state: "streaming",
+      stateReason: "API overloaded, retrying (attempt 2/10)",
+      error: "Overloaded",
+      errorKind: "overloaded",
+      isWaiting: true,
+      lastTimestamp: "2026-02-19T00:00:05Z",
+    });
+  });
+
+  it("T22.5 - api_error record after the last retry → errored", () => {
+    const f = createTempJsonl([userMsg("fix this"), apiErrorRecord(10, 10)]);
+    expect(readTailMetadata(f)).toMatchObject({ state: "errored", errorKind: "overloaded", isWaiting: false });
+  });
+
+  it("T22.6 - refusal → errored without error text", () => {
+    const f = createTempJsonl([assistantMsg([textBlock("I can't help with that.")], { stop_reason: "refusal" })]);
+    const result = readTailMetadata(f);
+    expect(result).toMatchObject({ state: "errored", errorKind: "refusal" });
+    expect(result.error).toBeUndefined();
+  });
+
+  it("T22.7 - classifyApiError", () => {
+    expect(classifyApiError("API Error: 429 rate_limit_error")).toBe("rateLimit");
+    expect(classifyApiError("5-hour limit reached ∙ resets 3pm")).toBe("rateLimit");
+    expect(classifyApiError("API Error: 529 overloaded_error")).toBe("overloaded");
+    expect(classifyApiError("API Error: Request timed out.")).toBe("api");
+  });
+
+  it("T22.8 - error text is exposed on the conversation", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "readTailMetadata-test-"));
+    try {
+      const now = new Date().toISOString();
+      fs.writeFileSync(
+        path.join(dir, "s.jsonl"),
+        [userMsg("hello", { timestamp: now }), apiErrorMsg("API Error: 429 rate_limit_error")]
+          .map((l) => JSON.stringify(l)).join("\n") + "\n"
+      );
+      const [conversation] = await loadConversationsForProject(dir);
+      expect(conversation).toMatchObject({
+        state: "errored",
+        error: "API Error: 429 rate_limit_error",
+        errorKind: "rateLimit",
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
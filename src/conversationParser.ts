@@ -1,10 +1,26 @@
 import * as fs from "fs";
 import * as path from "path";
-import * as os from "os";
-import * as readline from "readline";
-import { ConversationMeta, JnsonlMessage, ContentBlock } from "./types";
+import {
+  ConversationMeta,
+  JnsonlMessage,
+  ContentBlock,
+  TokenUsage,
+  SessionState,
+  ErrorKind,
+} from "./types";
+import {
+  emptyUsage,
+  addUsage,
+  cloneUsageMap,
+  usageBucketKey,
+  localDay,
+} from "./usage";
+import { MetadataCache, CachedFileMeta } from "./metadataCache";
+import { SUBAGENT_TOOLS } from "./subAgents";
+import { matchesGlob } from "./glob";
+import { ProjectPathResolver } from "./projectPaths";
+import { getClaudeDataDirs, projectsDirOf, dataDirFor } from "./dataDirs";
 
-const CLAUDE_DIR = path.join(os.homedir(), ".claude", "projects");
 const MAX_TITLE_LENGTH = 60;
 
 export function decodeProjectDir(dirName: string): string {
@@ -35,167 +51,169 @@ function extractTitle(content: string | ContentBlock[]): string | null {
   return null;
 }
 
-async function parseConversationFile(
-  filePath: string,
-  projectDir: string,
-  projectPath: string
-): Promise<ConversationMeta | null> {
-  return new Promise((resolve) => {
-    const stream = fs.createReadStream(filePath, { encoding: "utf8" });
-    const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
-
-    let title: string | null = null;
-    let sessionId: string | null = null;
-    let firstTimestamp: string | null = null;
-    let lastTimestamp: string | null = null;
-    let gitBranch: string | undefined;
-    let model: string | undefined;
-    let messageCount = 0;
-    let lineCount = 0;
-    const MAX_LINES = 500; // Read enough lines to get metadata but don't scan entire file
-
-    rl.on("line", (line) => {
-      lineCount++;
-      if (lineCount > MAX_LINES && title) {
-        rl.close();
-        stream.destroy();
-        return;
-      }
+export interface TailMetadata {
+  state: SessionState;       // state as of the last message (staleness is applied later)
+  stateReason: string;       // why the tail was classified as `state`
+  error?: string;            // API error text from a synthetic error message or api_error record
+  errorKind?: ErrorKind;
+  isWaiting: boolean;        // state is streaming or runningTool
+  isToolUseWaiting: boolean; // state is awaitingPermission
+  customTitle?: string;      // custom title set via /rename command
+  lastTimestamp?: string;    // timestamp of the last user/assistant message (for stale detection)
+  gitBranch?: string;        // most recent gitBranch from tail (overrides head-of-file value for worktree switches)
+}
 
-      try {
-        const obj: JnsonlMessage = JSON.parse(line);
+/**
+ * Tools that may require user permission before execution.
+ */
+export const PERMISSION_TOOLS = new Set([
+  "Bash",
+  "Write",
+  "Edit",
+  "NotebookEdit",
+  "AskUserQuestion",
+  "ExitPlanMode",
+]);
 
-        if (obj.type === "user" || obj.type === "assistant") {
-          messageCount++;
+/**
+ * Tunables for waiting-state detection (claudeConversations.detection.*).
+ */
+export interface DetectionConfig {
+  permissionTools: string[]; // tool name globs (`*` wildcard) that prompt for permission
+  permissionDelayMs: number; // a pending permission tool younger than this is still "running"
+  staleAfterMs: number; // no messages for this long → no waiting indicators
+  tailBytes: number; // how much of the end of the file readTailMetadata inspects
+}
 
-          if (!sessionId && obj.sessionId) {
-            sessionId = obj.sessionId;
-          }
-          if (!firstTimestamp && obj.timestamp) {
-            firstTimestamp = obj.timestamp;
-          }
-          if (obj.timestamp) {
-            lastTimestamp = obj.timestamp;
-          }
-          if (obj.gitBranch) {
-            gitBranch = obj.gitBranch;
-          }
-        }
+// Keep in sync with the claudeConversations.detection.* defaults in package.json
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  permissionTools: Array.from(PERMISSION_TOOLS),
+  permissionDelayMs: 3000,
+  staleAfterMs: 10 * 60 * 1000,
+  tailBytes: 16384,
+};
 
-        if (
-          obj.type === "user" &&
-          !obj.isMeta &&
-          !obj.isSidechain &&
-          !title &&
-          obj.message?.content
-        ) {
-          title = extractTitle(obj.message.content);
-        }
+/**
+ * The detection settings a cached tail depends on, so a change to them
+ * re-reads the tail instead of keeping the old classification.
+ */
+export function tailConfigKey(config: DetectionConfig): string {
+  const { permissionTools, permissionDelayMs, tailBytes } = config;
+  return JSON.stringify({ permissionTools, permissionDelayMs, tailBytes });
+}
 
-        if (obj.type === "assistant" && !model && obj.message?.model) {
-          model = obj.message.model;
-        }
-      } catch {
-        // skip non-JSON lines
-      }
-    });
+/**
+ * States in which Claude is still working on the session. Only these go
+ * stale when the file stops changing.
+ */
+export const ACTIVE_STATES: ReadonlySet<SessionState> = new Set<SessionState>([
+  "streaming",
+  "runningTool",
+  "awaitingPermission",
+]);
 
-    rl.on("close", () => {
-      if (!title || !sessionId) {
-        resolve(null);
-        return;
-      }
+const MAX_ERROR_LENGTH = 300;
 
-      resolve({
-        sessionId,
-        title,
-        timestamp: new Date(lastTimestamp || firstTimestamp || Date.now()),
-        filePath,
-        messageCount,
-        model,
-        gitBranch,
-        projectPath,
-        projectDir,
-        isPinned: false,
-        isWaiting: false,
-        isToolUseWaiting: false,
-      });
-    });
-
-    rl.on("error", () => resolve(null));
-  });
+const ERROR_REASONS: Record<ErrorKind, string> = {
+  rateLimit: "Rate limit reached",
+  overloaded: "API overloaded",
+  api: "API request failed",
+  refusal: "Claude declined to respond",
+};
+
+/**
+ * Tell rate limits and overloads apart from other API errors by their text,
+ * e.g. "API Error: 529 {...overloaded_error...}" or "Claude AI usage limit reached|…".
+ */
+export function classifyApiError(text: string): ErrorKind {
+  if (/rate.?limit|usage limit|limit reached|\b429\b/i.test(text)) {
+    return "rateLimit";
+  }
+  if (/overload|\b529\b/i.test(text)) {
+    return "overloaded";
+  }
+  return "api";
 }
 
-export interface TailMetadata {
-  isWaiting: boolean;        // last message is user → waiting for Claude's response
-  isToolUseWaiting: boolean; // last assistant message has tool_use → waiting for permission
-  customTitle?: string;      // custom title set via /rename command
-  lastTimestamp?: string;    // timestamp of the last user/assistant message (for stale detection)
-  gitBranch?: string;        // most recent gitBranch from tail (overrides head-of-file value for worktree switches)
+function errorText(content: string | ContentBlock[] | undefined): string {
+  const text = typeof content === "string"
+    ? content
+    : (content ?? []).map((block) => block.text ?? "").join("\n");
+  const trimmed = text.trim();
+  return trimmed.length > MAX_ERROR_LENGTH ? `${trimmed.slice(0, MAX_ERROR_LENGTH)}…` : trimmed;
 }
 
 /**
- * Scan entire file for the last custom-title record.
- * Uses string matching to avoid parsing every JSON line.
+ * Synthetic assistant messages report API failures when Claude Code gives up
+ * on a request. Older versions lack the isApiErrorMessage flag, so the text is
+ * checked too.
  */
-function findCustomTitle(filePath: string): string | undefined {
-  try {
-    const content = fs.readFileSync(filePath, "utf8");
-    let lastTitle: string | undefined;
-    let idx = 0;
-    while (true) {
-      idx = content.indexOf('"custom-title"', idx);
-      if (idx === -1) { break; }
-      // Find the line boundaries
-      const lineStart = content.lastIndexOf("\n", idx) + 1;
-      let lineEnd = content.indexOf("\n", idx);
-      if (lineEnd === -1) { lineEnd = content.length; }
-      try {
-        const obj = JSON.parse(content.slice(lineStart, lineEnd));
-        if (obj.type === "custom-title" && obj.customTitle) {
-          lastTitle = obj.customTitle;
-        }
-      } catch {
-        // skip
-      }
-      idx = lineEnd;
-    }
-    return lastTitle;
-  } catch {
-    return undefined;
+function isApiErrorMessage(msg: JnsonlMessage): boolean {
+  if (msg.isApiErrorMessage) {
+    return true;
   }
+  const text = errorText(msg.message?.content);
+  return text.startsWith("API Error") || /usage limit reached/i.test(text);
 }
 
 /**
- * Tools that may require user permission before execution.
+ * Error text of a `system` api_error record, written while a request is retried.
  */
-export const PERMISSION_TOOLS = new Set([
-  "Bash",
-  "Write",
-  "Edit",
-  "NotebookEdit",
-  "AskUserQuestion",
-  "ExitPlanMode",
-]);
+function systemErrorText(obj: Record<string, unknown>): string {
+  if (typeof obj.content === "string" && obj.content) {
+    return errorText(obj.content);
+  }
+  // { error: { status, error: { type, error: { message } } } } and flatter variants
+  let error = obj.error as Record<string, unknown> | undefined;
+  while (error && typeof error === "object") {
+    if (typeof error.message === "string") {
+      return errorText(error.message);
+    }
+    error = error.error as Record<string, unknown> | undefined;
+  }
+  return "API error";
+}
+
+function setError(result: TailMetadata, text: string, kind: ErrorKind = classifyApiError(text)): string {
+  result.error = text;
+  result.errorKind = kind;
+  return ERROR_REASONS[kind];
+}
+
+function setState(result: TailMetadata, state: SessionState, reason: string): TailMetadata {
+  result.state = state;
+  result.stateReason = reason;
+  result.isWaiting = state === "streaming" || state === "runningTool";
+  result.isToolUseWaiting = state === "awaitingPermission";
+  return result;
+}
 
 /**
- * Stateless waiting-state detection based purely on message state.
+ * Stateless session-state detection based purely on message state.
  *
- * Walks backwards through the tail of the JSONL file and determines:
- *   - isWaiting: conversation is actively processing (loading spinner)
- *   - isToolUseWaiting: waiting for user permission (warning icon)
+ * Walks backwards through the tail of the JSONL file and classifies the
+ * session (see SessionState). isWaiting (loading spinner) and
+ * isToolUseWaiting (warning icon) are derived from the state.
  *
  * Interrupted/abandoned conversations are detected by their explicit
  * records (summary, "[Request interrupted by user", synthetic model).
  * No external file-activity tracking needed.
  */
-export function readTailMetadata(filePath: string): TailMetadata {
-  const result: TailMetadata = { isWaiting: false, isToolUseWaiting: false };
+export function readTailMetadata(
+  filePath: string,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): TailMetadata {
+  const result: TailMetadata = {
+    state: "completed",
+    stateReason: "No messages",
+    isWaiting: false,
+    isToolUseWaiting: false,
+  };
   try {
     const stat = fs.statSync(filePath);
 
-    // Read last 16KB to find the last messages
-    const readSize = Math.min(stat.size, 16384);
+    // Read the last config.tailBytes (16KB by default) to find the last messages
+    const readSize = Math.min(stat.size, config.tailBytes);
     const fd = fs.openSync(filePath, "r");
     const buf = Buffer.alloc(readSize);
     fs.readSync(fd, buf, 0, readSize, stat.size - readSize);
@@ -218,7 +236,20 @@ export function readTailMetadata(filePath: string): TailMetadata {
 
       // summary record → conversation was interrupted and wrapped up
       if (type === "summary") {
-        return result;
+        return setState(result, "completed", "Conversation was summarized");
+      }
+
+      // api_error record → the latest request failed and is being retried
+      if (type === "system" && obj.subtype === "api_error" && !obj.isSidechain) {
+        const reason = setError(result, systemErrorText(obj));
+        result.lastTimestamp ??= obj.timestamp as string | undefined;
+        const attempt = obj.retryAttempt as number | undefined;
+        const max = obj.maxRetries as number | undefined;
+        if (attempt !== undefined && max !== undefined && attempt >= max) {
+          return setState(result, "errored", reason);
+        }
+        const progress = attempt !== undefined && max !== undefined ? ` (attempt ${attempt}/${max})` : "";
+        return setState(result, "streaming", `${reason}, retrying${progress}`);
       }
 
       // Skip non-conversation records
@@ -230,8 +261,15 @@ export function readTailMetadata(filePath: string): TailMetadata {
       if (msg.isSidechain) {
         continue;
       }
-      // Synthetic messages are written after interrupt
       if (type === "assistant" && msg.message?.model === "<synthetic>") {
+        // API error / rate limit → the request failed for good
+        if (isApiErrorMessage(msg)) {
+          const reason = setError(result, errorText(msg.message?.content));
+          result.lastTimestamp ??= msg.timestamp;
+          result.gitBranch ??= msg.gitBranch;
+          return setState(result, "errored", reason);
+        }
+        // Other synthetic messages are written after interrupt
         continue;
       }
 
@@ -251,7 +289,7 @@ export function readTailMetadata(filePath: string): TailMetadata {
         if (Array.isArray(content)) {
           const text = (content[0] as ContentBlock)?.text ?? "";
           if (text.startsWith("[Request interrupted by user")) {
-            return result;
+            return setState(result, "interrupted", "Request interrupted by user");
           }
         }
 
@@ -273,16 +311,20 @@ export function readTailMetadata(filePath: string): TailMetadata {
         }
 
         // Real user message → Claude should be responding
-        result.isWaiting = true;
-        return result;
+        return setState(result, "streaming", "Waiting for Claude to respond");
       }
 
       // --- Assistant message ---
       const stopReason = msg.message?.stop_reason;
       const content = msg.message?.content;
 
-      if (stopReason === "end_turn" || stopReason === "stop_sequence" || stopReason === "refusal") {
-        return result;
+      if (stopReason === "end_turn" || stopReason === "stop_sequence") {
+        return setState(result, "awaitingUser", "Claude finished its turn");
+      }
+      if (stopReason === "refusal") {
+        // No error text: the refusal itself is the assistant's reply
+        result.errorKind = "refusal";
+        return setState(result, "errored", ERROR_REASONS.refusal);
       }
 
       // Detect intermediate streaming placeholder written mid-stream.
@@ -304,7 +346,7 @@ export function readTailMetadata(filePath: string): TailMetadata {
           // (final response where end_turn was never written). Short text may be
           // a genuine intermediate write during active streaming.
           if (textLength > 100 && !hasToolUse) {
-            return result;
+            return setState(result, "awaitingUser", "Response ended without a stop reason");
           }
           // Track that we saw a text-only response (even if short),
           // but only if no tool_result has been seen yet. A text placeholder
@@ -317,7 +359,7 @@ export function readTailMetadata(filePath: string): TailMetadata {
         }
         // output_tokens >= 2 but disproportionately low vs text length → abandoned
         if (textLength > 10 && outputTokens < textLength / 20) {
-          return result;
+          return setState(result, "awaitingUser", "Response ended without a stop reason");
         }
       }
 
@@ -328,15 +370,16 @@ export function readTailMetadata(filePath: string): TailMetadata {
         );
 
         if (toolUseBlock && !toolResultSeen) {
-          if (PERMISSION_TOOLS.has(toolUseBlock.name!)) {
+          const name = toolUseBlock.name!;
+          const label = name || "a tool";
+          if (config.permissionTools.some((pattern) => matchesGlob(pattern, name))) {
             const ts = msg.timestamp;
             const age = ts ? Date.now() - new Date(ts).getTime() : Infinity;
-            result.isToolUseWaiting = age > 3000;
-            result.isWaiting = !result.isToolUseWaiting;
-          } else {
-            result.isWaiting = true;
+            if (age > config.permissionDelayMs) {
+              return setState(result, "awaitingPermission", `Waiting for permission to run ${label}`);
+            }
           }
-          return result;
+          return setState(result, "runningTool", `Running ${label}`);
         }
 
         if (toolUseBlock && toolResultSeen) {
@@ -344,16 +387,14 @@ export function readTailMetadata(filePath: string): TailMetadata {
           // the assistant already moved past tool execution and started
           // generating a text response. Don't report as waiting.
           if (textResponseSeen) {
-            return result;
+            return setState(result, "awaitingUser", "Responded after tool use");
           }
-          result.isWaiting = true;
-          return result;
+          return setState(result, "streaming", "Processing tool results");
         }
       }
 
       // stop_reason is null/undefined, no tool_use → actively streaming
-      result.isWaiting = true;
-      return result;
+      return setState(result, "streaming", "Generating a response");
     }
   } catch {
     // ignore
@@ -361,146 +402,370 @@ export function readTailMetadata(filePath: string): TailMetadata {
   return result;
 }
 
+const HEAD_LINES = 30; // head fields (title, sessionId, model) come from the first lines only
+const SCAN_CHUNK_SIZE = 1024 * 1024;
+
 /**
- * Fast metadata extraction - reads file stats + first few lines + tail
+ * Metadata accumulated by scanning a JSONL file from the start.
+ * `offset` always points just past the last complete line scanned, so
+ * appended data can be picked up without re-reading earlier bytes.
  */
-async function parseConversationFileFast(
-  filePath: string,
-  projectDir: string,
-  projectPath: string
-): Promise<ConversationMeta | null> {
-  return new Promise((resolve) => {
-    const stream = fs.createReadStream(filePath, { encoding: "utf8" });
-    const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
-
-    let title: string | null = null;
-    let sessionId: string | null = null;
-    let gitBranch: string | undefined;
-    let model: string | undefined;
-    let lineCount = 0;
-
-    rl.on("line", (line) => {
-      lineCount++;
-      // Read only first 30 lines for fast parsing
-      if (lineCount > 30) {
-        rl.close();
-        stream.destroy();
-        return;
-      }
+export interface FileScanState {
+  offset: number;
+  lineCount: number;
+  messageCount: number;
+  toolCallCount: number;
+  subAgentCount: number; // Task/Agent invocations in the main chain
+  lastAssistantId?: string; // assistant records sharing this id belong to one turn
+  usage: Record<string, TokenUsage>; // per model
+  usageBuckets: Record<string, TokenUsage>; // per day/model/branch, for the usage dashboard
+  lastUsage?: { id: string; model: string; bucket?: string; tokens: TokenUsage }; // counted usage of the latest message
+  sessionId?: string;
+  title?: string;
+  gitBranch?: string;
+  model?: string;
+  customTitle?: string;
+}
 
-      try {
-        const obj: JnsonlMessage = JSON.parse(line);
+/**
+ * Whether a user record is a prompt typed by the user, as opposed to
+ * tool results, interrupts and system-generated messages.
+ */
+function isUserPrompt(content: string | ContentBlock[] | undefined): boolean {
+  if (typeof content === "string") {
+    return !content.startsWith("<");
+  }
+  if (!Array.isArray(content) || content.length === 0) {
+    return false;
+  }
+  if (content.some((block) => block.type === "tool_result")) {
+    return false;
+  }
+  const text = content[0]?.text ?? "";
+  return !text.startsWith("[Request interrupted by user");
+}
 
-        if (!sessionId && obj.sessionId) {
-          sessionId = obj.sessionId;
-        }
-        if (!gitBranch && obj.gitBranch) {
-          gitBranch = obj.gitBranch;
-        }
+function countTurn(state: FileScanState, obj: JnsonlMessage): void {
+  if (obj.isMeta || obj.isSidechain) {
+    return;
+  }
+  const content = obj.message?.content;
 
-        if (
-          obj.type === "user" &&
-          !obj.isMeta &&
-          !obj.isSidechain &&
-          !title &&
-          obj.message?.content
-        ) {
-          title = extractTitle(obj.message.content);
-        }
+  if (obj.type === "user") {
+    if (isUserPrompt(content)) {
+      state.messageCount++;
+    }
+    state.lastAssistantId = undefined;
+    return;
+  }
 
-        if (obj.type === "assistant" && !model && obj.message?.model) {
-          model = obj.message.model;
+  if (obj.type === "assistant") {
+    // Synthetic messages are written after interrupt, not by the model
+    if (obj.message?.model === "<synthetic>") {
+      return;
+    }
+    const id = obj.message?.id;
+    if (!id || id !== state.lastAssistantId) {
+      state.messageCount++;
+    }
+    state.lastAssistantId = id;
+    if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block.type === "tool_use") {
+          state.toolCallCount++;
+          if (block.name && SUBAGENT_TOOLS.has(block.name)) {
+            state.subAgentCount++;
+          }
         }
-      } catch {
-        // skip
       }
-    });
+    }
+  }
+}
 
-    rl.on("close", () => {
-      if (!title || !sessionId) {
-        resolve(null);
-        return;
-      }
+/**
+ * Add an assistant record's token usage to the per-model totals.
+ * Every record of one streamed message repeats the message's usage, so a
+ * record with the same id replaces the previous contribution instead of
+ * adding to it. Sub-agent usage is included — it's billed all the same.
+ */
+function accumulateUsage(state: FileScanState, obj: JnsonlMessage): void {
+  const usage = obj.message?.usage;
+  const model = obj.message?.model;
+  if (obj.type !== "assistant" || !usage || !model || model === "<synthetic>") {
+    return;
+  }
+  const tokens: TokenUsage = {
+    input: usage.input_tokens ?? 0,
+    output: usage.output_tokens ?? 0,
+    cacheCreation: usage.cache_creation_input_tokens ?? 0,
+    cacheRead: usage.cache_read_input_tokens ?? 0,
+  };
+
+  const id = obj.message?.id;
+  const prev = state.lastUsage;
+  if (id && prev && prev.id === id) {
+    if (state.usage[prev.model]) {
+      addUsage(state.usage[prev.model], prev.tokens, -1);
+    }
+    if (prev.bucket && state.usageBuckets[prev.bucket]) {
+      addUsage(state.usageBuckets[prev.bucket], prev.tokens, -1);
+    }
+  }
+  addUsage((state.usage[model] ??= emptyUsage()), tokens);
 
-      // Use file mtime for timestamp (fast, no need to scan entire file)
-      const stat = fs.statSync(filePath);
-
-      // Estimate message count from file size (rough: ~2KB per message pair)
-      const estimatedMessages = Math.max(
-        1,
-        Math.round(stat.size / 2048)
-      );
-
-      const tailMeta = readTailMetadata(filePath);
-      const customTitle = findCustomTitle(filePath);
-
-      // Suppress waiting indicators for stale sessions (no messages in 10 min)
-      const lastMsgTime = tailMeta.lastTimestamp
-        ? new Date(tailMeta.lastTimestamp).getTime()
-        : stat.mtime.getTime();
-      const msgAge = Date.now() - lastMsgTime;
-      const isStale = msgAge > 10 * 60 * 1000;
-
-      resolve({
-        sessionId,
-        title: customTitle || title,
-        timestamp: stat.mtime,
-        filePath,
-        messageCount: estimatedMessages,
-        model,
-        gitBranch: tailMeta.gitBranch || gitBranch,
-        projectPath,
-        projectDir,
-        isPinned: false,
-        isWaiting: isStale ? false : tailMeta.isWaiting,
-        isToolUseWaiting: isStale ? false : tailMeta.isToolUseWaiting,
-      });
-    });
-
-    rl.on("error", () => resolve(null));
-  });
+  let bucket: string | undefined;
+  const time = obj.timestamp ? new Date(obj.timestamp) : undefined;
+  if (time && !isNaN(time.getTime())) {
+    bucket = usageBucketKey({ day: localDay(time), model, gitBranch: obj.gitBranch ?? "" });
+    addUsage((state.usageBuckets[bucket] ??= emptyUsage()), tokens);
+  }
+  state.lastUsage = id ? { id, model, bucket, tokens } : undefined;
 }
 
-export async function loadAllConversations(): Promise<ConversationMeta[]> {
-  if (!fs.existsSync(CLAUDE_DIR)) {
-    return [];
-  }
+function applyScanLine(state: FileScanState, line: string): void {
+  state.lineCount++;
+  const inHead = state.lineCount <= HEAD_LINES;
 
-  const projectDirs = fs
-    .readdirSync(CLAUDE_DIR, { withFileTypes: true })
-    .filter((d) => d.isDirectory());
+  let obj: JnsonlMessage;
+  try {
+    obj = JSON.parse(line);
+  } catch {
+    return;
+  }
 
-  const allConversations: ConversationMeta[] = [];
+  if (obj.type === "custom-title" && obj.customTitle) {
+    state.customTitle = obj.customTitle;
+  }
+  countTurn(state, obj);
+  accumulateUsage(state, obj);
+  if (!inHead) {
+    return;
+  }
 
-  for (const dir of projectDirs) {
-    const projectDir = dir.name;
-    const projectPath = decodeProjectDir(projectDir);
-    const dirPath = path.join(CLAUDE_DIR, projectDir);
+  if (!state.sessionId && obj.sessionId) {
+    state.sessionId = obj.sessionId;
+  }
+  if (!state.gitBranch && obj.gitBranch) {
+    state.gitBranch = obj.gitBranch;
+  }
+  if (
+    obj.type === "user" &&
+    !obj.isMeta &&
+    !obj.isSidechain &&
+    !state.title &&
+    obj.message?.content
+  ) {
+    state.title = extractTitle(obj.message.content) ?? undefined;
+  }
+  if (obj.type === "assistant" && !state.model && obj.message?.model) {
+    state.model = obj.message.model;
+  }
+}
 
-    // Skip if directory doesn't actually exist (broken symlink, race condition, etc.)
-    if (!fs.existsSync(dirPath)) {
-      continue;
+/**
+ * Call `onLine` for every complete line from `offset` to EOF, with the byte
+ * offset where the line starts. Returns the offset just past the last
+ * complete line; a trailing line without "\n" is left for the next read
+ * (it may still be being written).
+ */
+export function readLinesFrom(
+  filePath: string,
+  offset: number,
+  onLine: (line: string, lineOffset: number) => void
+): number {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    let position = offset;
+    let pending = Buffer.alloc(0);
+    while (position < size) {
+      const buf = Buffer.alloc(Math.min(SCAN_CHUNK_SIZE, size - position));
+      const bytesRead = fs.readSync(fd, buf, 0, buf.length, position);
+      if (bytesRead === 0) { break; }
+      position += bytesRead;
+
+      const chunk = Buffer.concat([pending, buf.subarray(0, bytesRead)]);
+      let start = 0;
+      let nl: number;
+      while ((nl = chunk.indexOf(0x0a, start)) !== -1) {
+        onLine(chunk.toString("utf8", start, nl), offset);
+        offset += nl + 1 - start;
+        start = nl + 1;
+      }
+      pending = chunk.subarray(start);
     }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return offset;
+}
 
-    let jsonlFiles: string[];
-    try {
-      jsonlFiles = fs
-        .readdirSync(dirPath)
-        .filter((f) => f.endsWith(".jsonl"))
-        .map((f) => path.join(dirPath, f));
-    } catch {
-      continue;
+/**
+ * Scan complete lines from `state.offset` to EOF and return the updated state.
+ */
+export function scanConversationFile(
+  filePath: string,
+  state: FileScanState = {
+    offset: 0,
+    lineCount: 0,
+    messageCount: 0,
+    toolCallCount: 0,
+    subAgentCount: 0,
+    usage: {},
+    usageBuckets: {},
+  }
+): FileScanState {
+  // Usage totals are updated in place — copy them so a cached state is never mutated
+  const next: FileScanState = {
+    ...state,
+    usage: cloneUsageMap(state.usage),
+    usageBuckets: cloneUsageMap(state.usageBuckets),
+  };
+  next.offset = readLinesFrom(filePath, state.offset, (line) => applyScanLine(next, line));
+  return next;
+}
+
+function isTailWaiting(tail: TailMetadata): boolean {
+  return ACTIVE_STATES.has(tail.state);
+}
+
+/**
+ * Resolve the metadata of a single JSONL file, reusing the cache where possible:
+ *   - unchanged (same inode, size and mtime) → nothing is re-read, except the
+ *     tail of sessions that were waiting (their state depends on elapsed time)
+ *     or whose tail was read with other detection settings
+ *   - appended (same inode, larger size) → only the new bytes are scanned
+ *   - truncated, rewritten or replaced → full rescan
+ */
+export function readFileMetadata(
+  filePath: string,
+  cache?: MetadataCache,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): CachedFileMeta | null {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(filePath);
+  } catch {
+    return null;
+  }
+
+  const cached = cache?.get(filePath);
+  if (
+    cached &&
+    cached.ino === stat.ino &&
+    cached.size === stat.size &&
+    cached.mtimeMs === stat.mtimeMs
+  ) {
+    const tailConfig = tailConfigKey(config);
+    if (!isTailWaiting(cached.tail) && cached.tailConfig === tailConfig) {
+      return cached;
     }
+    const tail = readTailMetadata(filePath, config);
+    if (
+      cached.tailConfig === tailConfig &&
+      tail.state === cached.tail.state &&
+      tail.stateReason === cached.tail.stateReason &&
+      tail.error === cached.tail.error
+    ) {
+      return cached;
+    }
+    const updated = { ...cached, tail, tailConfig };
+    cache!.set(filePath, updated);
+    return updated;
+  }
+
+  const appended =
+    cached !== undefined &&
+    cached.ino === stat.ino &&
+    stat.size > cached.size;
 
-    const results = await Promise.all(
-      jsonlFiles.map((f) => parseConversationFileFast(f, projectDir, projectPath))
+  let scan: FileScanState;
+  try {
+    scan = scanConversationFile(
+      filePath,
+      appended ? cached : undefined
     );
+  } catch {
+    return null;
+  }
 
-    for (const meta of results) {
-      if (meta) {
-        allConversations.push(meta);
-      }
-    }
+  const entry: CachedFileMeta = {
+    ...scan,
+    ino: stat.ino,
+    size: stat.size,
+    mtimeMs: stat.mtimeMs,
+    tail: readTailMetadata(filePath, config),
+    tailConfig: tailConfigKey(config),
+  };
+  cache?.set(filePath, entry);
+  return entry;
+}
+
+/**
+ * Fast metadata extraction - head fields + custom title from an incremental
+ * scan, waiting state from the tail
+ */
+async function parseConversationFileFast(
+  filePath: string,
+  projectDir: string,
+  projectPath: string,
+  cache?: MetadataCache,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): Promise<ConversationMeta | null> {
+  const meta = readFileMetadata(filePath, cache, config);
+  if (!meta || !meta.title || !meta.sessionId) {
+    return null;
+  }
+
+  // Suppress waiting indicators for stale sessions (no messages in 10 min by default)
+  const tailMeta = meta.tail;
+  const lastMsgTime = tailMeta.lastTimestamp
+    ? new Date(tailMeta.lastTimestamp).getTime()
+    : meta.mtimeMs;
+  const msgAge = Date.now() - lastMsgTime;
+  const isStale = msgAge > config.staleAfterMs;
+  let state = tailMeta.state;
+  let stateReason = tailMeta.stateReason;
+  if (isStale && ACTIVE_STATES.has(state)) {
+    state = "stale";
+    stateReason = `${tailMeta.stateReason}, but no activity for ${Math.round(msgAge / 60000)} minutes`;
+  } else if (isStale && state === "awaitingUser") {
+    state = "completed";
+  }
+
+  return {
+    sessionId: meta.sessionId,
+    title: meta.customTitle || meta.title,
+    timestamp: new Date(meta.mtimeMs),
+    filePath,
+    messageCount: meta.messageCount,
+    toolCallCount: meta.toolCallCount,
+    subAgentCount: meta.subAgentCount,
+    usageByModel: meta.usage,
+    usageBuckets: meta.usageBuckets,
+    model: meta.model,
+    gitBranch: tailMeta.gitBranch || meta.gitBranch,
+    projectPath,
+    projectDir,
+    isPinned: false,
+    state,
+    stateReason,
+    error: tailMeta.error,
+    errorKind: tailMeta.errorKind,
+    isWaiting: isStale ? false : tailMeta.isWaiting,
+    isToolUseWaiting: isStale ? false : tailMeta.isToolUseWaiting,
+  };
+}
+
+export async function loadAllConversations(
+  cache?: MetadataCache,
+  resolver?: ProjectPathResolver,
+  config?: DetectionConfig
+): Promise<ConversationMeta[]> {
+  const allConversations: ConversationMeta[] = [];
+
+  for (const dirPath of listAllProjectDirs()) {
+    allConversations.push(...(await loadConversationsForProject(dirPath, cache, resolver, config)));
   }
 
   // Sort by timestamp descending (newest first)
@@ -509,15 +774,26 @@ export async function loadAllConversations(): Promise<ConversationMeta[]> {
   return allConversations;
 }
 
+/**
+ * Sessions of one project directory (absolute path under a data
+ * directory's `projects/`).
+ */
 export async function loadConversationsForProject(
-  projectDir: string
+  dirPath: string,
+  cache?: MetadataCache,
+  resolver?: ProjectPathResolver,
+  config?: DetectionConfig
 ): Promise<ConversationMeta[]> {
-  const dirPath = path.join(CLAUDE_DIR, projectDir);
+  // Skip if directory doesn't actually exist (broken symlink, race condition, etc.)
   if (!fs.existsSync(dirPath)) {
     return [];
   }
 
-  const projectPath = decodeProjectDir(projectDir);
+  const projectDir = path.basename(dirPath);
+  const projectPath = resolver?.resolve(dirPath) ?? decodeProjectDir(projectDir);
+  // Label sessions with their profile only when several data dirs are merged
+  const profile =
+    getClaudeDataDirs().length > 1 ? dataDirFor(dirPath)?.label : undefined;
 
   let jsonlFiles: string[];
   try {
@@ -530,17 +806,46 @@ export async function loadConversationsForProject(
   }
 
   const results = await Promise.all(
-    jsonlFiles.map((f) => parseConversationFileFast(f, projectDir, projectPath))
+    // Paths that encode to the same name share the directory; label each session by its own cwd
+    jsonlFiles.map((f) =>
+      parseConversationFileFast(f, projectDir, resolver?.sessionCwd(f) ?? projectPath, cache, config)
+    )
   );
+  cache?.prune(dirPath, new Set(jsonlFiles));
 
   const conversations = results.filter(
     (m): m is ConversationMeta => m !== null
   );
+  if (profile) {
+    for (const c of conversations) {
+      c.profile = profile;
+    }
+  }
 
   conversations.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   return conversations;
 }
 
-export function getClaudeProjectsDir(): string {
-  return CLAUDE_DIR;
+/**
+ * `projects/` directories of every configured Claude data directory.
+ */
+export function getClaudeProjectsDirs(): string[] {
+  return getClaudeDataDirs().map(projectsDirOf);
+}
+
+/**
+ * Every project directory (absolute path) under the given `projects/`
+ * directories.
+ */
+export function listAllProjectDirs(projectsDirs: string[] = getClaudeProjectsDirs()): string[] {
+  return projectsDirs.flatMap((projectsDir) => {
+    try {
+      return fs
+        .readdirSync(projectsDir, { withFileTypes: true })
+        .filter((d) => d.isDirectory())
+        .map((d) => path.join(projectsDir, d.name));
+    } catch {
+      return [];
+    }
+  });
 }
@@ -1,12 +1,75 @@
 import * as vscode from "vscode";
-import { ConversationMeta } from "./types";
+import * as path from "path";
+import { ConversationMeta, SessionState } from "./types";
+import { StateFilterKey, stateFilterKey } from "./stateTransitions";
 import {
+  loadAllConversations,
   loadConversationsForProject,
-  getProjectDisplayName,
+  listAllProjectDirs,
 } from "./conversationParser";
 import { getPinnedSessionIds } from "./pinManager";
+import { MetadataCache } from "./metadataCache";
+import {
+  ProjectPathResolver,
+  ProjectGroup,
+  groupByProject,
+  makeProjectGroup,
+} from "./projectPaths";
+import { getPricingTable, getDetectionConfig } from "./config";
+import {
+  PricingTable,
+  DEFAULT_PRICING,
+  estimateCost,
+  sumUsage,
+  totalTokens,
+  formatCost,
+  formatUsage,
+  formatTokenCount,
+} from "./usage";
+import { SubAgentRun, readSubAgents, formatDuration } from "./subAgents";
+import { Worktree, listWorktrees, worktreeLabel } from "./gitWorktrees";
+import { DeletedConversation, listDeleted } from "./trash";
+import { TabSessionTracker } from "./tabSessionTracker";
 
-type TreeItem = GroupItem | ConversationItem;
+type TreeItem = GroupItem | ConversationItem | SubAgentItem | DeletedGroupItem | DeletedItem;
+
+interface StateDisplay {
+  label: string;
+  icon: string;
+  color?: string;
+}
+
+/**
+ * Label and icon of each session state, in the order the state filter lists them.
+ */
+export const SESSION_STATE_DISPLAY: Record<SessionState, StateDisplay> = {
+  awaitingPermission: { label: "Awaiting permission", icon: "alert", color: "charts.orange" },
+  runningTool: { label: "Running tool", icon: "gear~spin", color: "charts.yellow" },
+  streaming: { label: "Streaming", icon: "loading~spin", color: "charts.yellow" },
+  awaitingUser: { label: "Awaiting user", icon: "comment-unresolved", color: "charts.blue" },
+  errored: { label: "Errored", icon: "error", color: "errorForeground" },
+  interrupted: { label: "Interrupted", icon: "debug-stop" },
+  stale: { label: "Stale", icon: "watch" },
+  completed: { label: "Completed", icon: "comment-discussion" },
+};
+
+/**
+ * Label and icon of each state filter entry: the states, with Errored split
+ * by the cause of the error.
+ */
+export const STATE_FILTER_DISPLAY: Record<StateFilterKey, StateDisplay> = {
+  awaitingPermission: SESSION_STATE_DISPLAY.awaitingPermission,
+  runningTool: SESSION_STATE_DISPLAY.runningTool,
+  streaming: SESSION_STATE_DISPLAY.streaming,
+  awaitingUser: SESSION_STATE_DISPLAY.awaitingUser,
+  "errored:rateLimit": { label: "Errored: rate limited", icon: "dashboard", color: "errorForeground" },
+  "errored:overloaded": { label: "Errored: API overloaded", icon: "flame", color: "errorForeground" },
+  "errored:api": { label: "Errored: API error", icon: "error", color: "errorForeground" },
+  "errored:refusal": { label: "Errored: refused", icon: "circle-slash", color: "errorForeground" },
+  interrupted: SESSION_STATE_DISPLAY.interrupted,
+  stale: SESSION_STATE_DISPLAY.stale,
+  completed: SESSION_STATE_DISPLAY.completed,
+};
 
 export class GroupItem extends vscode.TreeItem {
   constructor(
@@ -16,31 +79,83 @@ export class GroupItem extends vscode.TreeItem {
   ) {
     super(label, collapsibleState);
   }
+
+  /**
+   * Group of one project's sessions in All Projects mode.
+   */
+  static forProject(group: ProjectGroup, expanded: boolean): GroupItem {
+    const item = new GroupItem(
+      group.label,
+      group.conversations,
+      expanded
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    const parts = [`${group.conversations.length}`];
+    if (group.permissionCount > 0) {
+      parts.push(`${group.permissionCount} need permission`);
+    }
+    if (group.waitingCount > 0) {
+      parts.push(`${group.waitingCount} running`);
+    }
+    item.description = parts.join(" · ");
+    item.tooltip = group.projectPath;
+    item.contextValue = "project";
+    if (group.permissionCount > 0) {
+      item.iconPath = new vscode.ThemeIcon("alert", new vscode.ThemeColor("charts.orange"));
+    } else if (group.waitingCount > 0) {
+      item.iconPath = new vscode.ThemeIcon("loading~spin", new vscode.ThemeColor("charts.yellow"));
+    } else {
+      item.iconPath = new vscode.ThemeIcon("folder");
+    }
+    return item;
+  }
+}
+
+const OPEN_TAB_SCHEME = "claude-open-tab";
+
+/**
+ * Badge for conversations that are open in an editor tab.
+ */
+export class OpenTabDecorationProvider implements vscode.FileDecorationProvider {
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== OPEN_TAB_SCHEME) return undefined;
+    return new vscode.FileDecoration("●", "Open in an editor tab");
+  }
 }
 
 export class ConversationItem extends vscode.TreeItem {
-  constructor(public readonly meta: ConversationMeta) {
-    super(meta.title, vscode.TreeItemCollapsibleState.None);
+  constructor(
+    public readonly meta: ConversationMeta,
+    private readonly pricing: PricingTable = DEFAULT_PRICING,
+    private readonly worktree?: Worktree, // set when the repository has several worktrees
+    tabOpen = false // the session is open in an editor tab
+  ) {
+    super(
+      meta.title,
+      meta.subAgentCount > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
 
     this.description = this.formatDescription();
     this.tooltip = this.formatTooltip();
-    this.contextValue = meta.isPinned ? "pinnedConversation" : "conversation";
-
-    // Icon: toolUseWaiting (shield) > waiting (loading~) > pinned > normal
-    let icon: string;
-    let iconColor: vscode.ThemeColor | undefined;
-    if (meta.isToolUseWaiting) {
-      icon = "alert";
-      iconColor = new vscode.ThemeColor("charts.orange");
-    } else if (meta.isWaiting) {
-      icon = "loading~spin";
-      iconColor = new vscode.ThemeColor("charts.yellow");
-    } else if (meta.isPinned) {
-      icon = "pinned";
-    } else {
-      icon = "comment-discussion";
+    this.contextValue = (meta.isPinned ? "pinnedConversation" : "conversation") + (tabOpen ? ".tabOpen" : "");
+    if (tabOpen) {
+      // Decorated by OpenTabDecorationProvider
+      this.resourceUri = vscode.Uri.from({ scheme: OPEN_TAB_SCHEME, path: `/${meta.sessionId}` });
     }
-    this.iconPath = new vscode.ThemeIcon(icon, iconColor);
+
+    // Icon: the session state (errors by cause, retries after an API error
+    // as a spinning sync), except completed sessions show the pin when pinned
+    const display: StateDisplay =
+      meta.error && meta.state === "streaming"
+        ? { label: "Retrying", icon: "sync~spin", color: "charts.orange" }
+        : STATE_FILTER_DISPLAY[stateFilterKey(meta)];
+    this.iconPath =
+      meta.state === "completed" && meta.isPinned
+        ? new vscode.ThemeIcon("pinned")
+        : new vscode.ThemeIcon(display.icon, display.color ? new vscode.ThemeColor(display.color) : undefined);
     this.command = {
       command: "claudeConversations.open",
       title: "Open Conversation",
@@ -50,15 +165,36 @@ export class ConversationItem extends vscode.TreeItem {
 
   private formatDescription(): string {
     const parts: string[] = [];
+    if (this.meta.profile) {
+      parts.push(`[${this.meta.profile}]`);
+    }
+    if (this.worktree) {
+      parts.push(`⎇ ${path.basename(this.worktree.path)}`);
+    }
     if (this.meta.gitBranch) {
       parts.push(this.meta.gitBranch);
     }
     parts.push(`${this.meta.messageCount} messages`);
+    const { cost } = estimateCost(this.meta.usageByModel, this.pricing);
+    if (cost > 0) {
+      parts.push(formatCost(cost));
+    }
     return parts.join(" · ");
   }
 
   private formatTooltip(): string {
     const lines = [this.meta.title];
+    const state = SESSION_STATE_DISPLAY[this.meta.state].label;
+    lines.push(this.meta.stateReason ? `State: ${state} — ${this.meta.stateReason}` : `State: ${state}`);
+    if (this.meta.error) {
+      lines.push(`Error: ${this.meta.error}`);
+    }
+    if (this.meta.profile) {
+      lines.push(`Profile: ${this.meta.profile}`);
+    }
+    if (this.worktree) {
+      lines.push(`Worktree: ${worktreeLabel(this.worktree)} — ${this.worktree.path}`);
+    }
     if (this.meta.gitBranch) {
       lines.push(`Branch: ${this.meta.gitBranch}`);
     }
@@ -66,12 +202,123 @@ export class ConversationItem extends vscode.TreeItem {
       lines.push(`Model: ${this.meta.model}`);
     }
     lines.push(`Messages: ${this.meta.messageCount}`);
+    lines.push(`Tool calls: ${this.meta.toolCallCount}`);
+    if (this.meta.subAgentCount > 0) {
+      lines.push(`Sub-agents: ${this.meta.subAgentCount}`);
+    }
+    lines.push(...this.formatUsageLines());
     lines.push(`Time: ${this.meta.timestamp.toLocaleString()}`);
     lines.push(`Session: ${this.meta.sessionId}`);
     return lines.join("\n");
   }
+
+  private formatUsageLines(): string[] {
+    const total = sumUsage(this.meta.usageByModel);
+    if (totalTokens(total) === 0) {
+      return [];
+    }
+    const lines = [`Tokens: ${formatUsage(total)}`];
+    const models = Object.keys(this.meta.usageByModel);
+    if (models.length > 1) {
+      for (const model of models) {
+        const usage = this.meta.usageByModel[model];
+        lines.push(`  ${model}: ${formatTokenCount(totalTokens(usage))} tokens`);
+      }
+    }
+    const { cost, unpricedModels } = estimateCost(this.meta.usageByModel, this.pricing);
+    lines.push(`Estimated cost: ${formatCost(cost)}`);
+    if (unpricedModels.length > 0) {
+      lines.push(`  (no price for ${unpricedModels.join(", ")})`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * A sub-agent (Task/Agent tool call) spawned by a conversation.
+ */
+export class SubAgentItem extends vscode.TreeItem {
+  constructor(
+    public readonly meta: ConversationMeta,
+    public readonly run: SubAgentRun
+  ) {
+    super(run.description, vscode.TreeItemCollapsibleState.None);
+
+    const parts = [run.agentType, `${run.steps} ${run.steps === 1 ? "step" : "steps"}`];
+    if (run.durationMs !== undefined) {
+      parts.push(formatDuration(run.durationMs));
+    }
+    this.description = parts.join(" · ");
+
+    const lines = [run.description, `Agent: ${run.agentType}`, `Status: ${run.status}`, `Steps: ${run.steps}`];
+    if (run.durationMs !== undefined) {
+      lines.push(`Duration: ${formatDuration(run.durationMs)}`);
+    }
+    if (run.prompt) {
+      lines.push("", run.prompt.length > 500 ? `${run.prompt.slice(0, 500)}…` : run.prompt);
+    }
+    this.tooltip = lines.join("\n");
+    this.contextValue = "subAgent";
+
+    if (run.status === "running") {
+      this.iconPath = new vscode.ThemeIcon("loading~spin", new vscode.ThemeColor("charts.yellow"));
+    } else if (run.status === "failed") {
+      this.iconPath = new vscode.ThemeIcon("error", new vscode.ThemeColor("charts.red"));
+    } else {
+      this.iconPath = new vscode.ThemeIcon("check");
+    }
+    this.command = {
+      command: "claudeConversations.viewSubAgentTranscript",
+      title: "View Sub-agent Transcript",
+      arguments: [meta, run],
+    };
+  }
+}
+
+/**
+ * Section listing the deleted sessions of the listed projects.
+ */
+export class DeletedGroupItem extends vscode.TreeItem {
+  constructor(public readonly deleted: DeletedConversation[]) {
+    super(`Deleted Conversations (${deleted.length})`, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = "deletedGroup";
+    this.iconPath = new vscode.ThemeIcon("trash");
+  }
 }
 
+/**
+ * A session moved to the trash (`.bak`), which can be restored or purged.
+ */
+export class DeletedItem extends vscode.TreeItem {
+  constructor(public readonly deleted: DeletedConversation) {
+    super(deleted.title, vscode.TreeItemCollapsibleState.None);
+    const ago = formatRelativeTime(deleted.deletedAt);
+    this.description = ago === "now" ? "deleted just now" : `deleted ${ago} ago`;
+    const lines = [
+      deleted.title,
+      `Last active: ${deleted.timestamp.toLocaleString()}`,
+      `Deleted: ${deleted.deletedAt.toLocaleString()}`,
+    ];
+    if (deleted.wasPinned) {
+      lines.push("Pinned before it was deleted (restoring pins it again)");
+    }
+    lines.push(`Session: ${deleted.sessionId}`);
+    this.tooltip = lines.join("\n");
+    this.contextValue = "deletedConversation";
+    this.iconPath = new vscode.ThemeIcon("history");
+  }
+}
+
+// Memento keys, also used as context keys for the view title buttons
+const ALL_PROJECTS_KEY = "claudeConversations.allProjects";
+// A Claude project directory of a workspace folder
+interface FolderDir {
+  workspacePath: string; // the folder, or the same folder in another worktree
+  worktree?: Worktree; // set only for repositories with several worktrees
+}
+
+const CURRENT_WORKTREE_KEY = "claudeConversations.currentWorktreeOnly";
+
 export class ConversationProvider
   implements vscode.TreeDataProvider<TreeItem>
 {
@@ -80,18 +327,83 @@ export class ConversationProvider
   >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+  // Fired with freshly loaded conversations (after every refresh)
+  private _onDidLoadConversations = new vscode.EventEmitter<ConversationMeta[]>();
+  readonly onDidLoadConversations = this._onDidLoadConversations.event;
+  private loading: Promise<ConversationMeta[]> | undefined;
+
   private conversations: ConversationMeta[] = [];
+  private deleted: DeletedConversation[] = []; // trash of the listed projects, loaded with the conversations
   private filterText: string = "";
-  private currentWorkspacePath: string | undefined;
+  private stateFilter: ReadonlySet<StateFilterKey> | undefined; // undefined = every state
+  private workspaceFolders: readonly vscode.WorkspaceFolder[];
+  // Claude project directory paths of each workspace folder (and its other git
+  // worktrees), resolved on load. Paths that encode to the same name share a
+  // directory, so its sessions are matched to the folder by their own cwd.
+  private folderDirs: {
+    folder: vscode.WorkspaceFolder;
+    dirs: Map<string, FolderDir>;
+  }[] = [];
+  // filePath → sub-agents parsed at the given file mtime
+  private subAgents = new Map<string, { mtime: number; runs: SubAgentRun[] }>();
+
+  private allProjects: boolean;
+  private currentWorktreeOnly: boolean;
+
+  constructor(
+    private readonly cache: MetadataCache,
+    private readonly resolver: ProjectPathResolver,
+    private readonly workspaceState: vscode.Memento,
+    private readonly tabs: TabSessionTracker
+  ) {
+    this.workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    this.allProjects = workspaceState.get<boolean>(ALL_PROJECTS_KEY, false);
+    void vscode.commands.executeCommand("setContext", ALL_PROJECTS_KEY, this.allProjects);
+    this.currentWorktreeOnly = workspaceState.get<boolean>(CURRENT_WORKTREE_KEY, false);
+    void vscode.commands.executeCommand("setContext", CURRENT_WORKTREE_KEY, this.currentWorktreeOnly);
+  }
+
+  /**
+   * Switch between the current workspace's sessions and every project's.
+   * The choice is remembered per workspace.
+   */
+  setAllProjects(value: boolean): void {
+    this.allProjects = value;
+    void this.workspaceState.update(ALL_PROJECTS_KEY, value);
+    void vscode.commands.executeCommand("setContext", ALL_PROJECTS_KEY, value);
+    this.refresh();
+  }
 
+  /**
+   * Restrict the list to sessions of the worktree that is open, instead of
+   * all worktrees of its repository. Remembered per workspace.
+   */
+  setCurrentWorktreeOnly(value: boolean): void {
+    this.currentWorktreeOnly = value;
+    void this.workspaceState.update(CURRENT_WORKTREE_KEY, value);
+    void vscode.commands.executeCommand("setContext", CURRENT_WORKTREE_KEY, value);
+    this.refresh();
+  }
 
-  constructor() {
-    this.currentWorkspacePath =
-      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  /**
+   * Re-read the workspace folders (after folders were added or removed).
+   */
+  updateWorkspaceFolders(): void {
+    this.workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    this.refresh();
   }
 
   refresh(): void {
     this.conversations = [];
+    this.loading = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Re-render the tree from the loaded sessions, e.g. after tabs were opened
+   * or closed.
+   */
+  redraw(): void {
     this._onDidChangeTreeData.fire();
   }
 
@@ -100,6 +412,46 @@ export class ConversationProvider
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Show only sessions in the given states (undefined shows all).
+   */
+  setStateFilter(states: ReadonlySet<StateFilterKey> | undefined): void {
+    this.stateFilter = states;
+    void vscode.commands.executeCommand("setContext", "claudeConversations.stateFiltered", states !== undefined);
+    this._onDidChangeTreeData.fire();
+  }
+
+  getStateFilter(): ReadonlySet<StateFilterKey> | undefined {
+    return this.stateFilter;
+  }
+
+
+  /**
+   * Loaded conversations for the current workspace (loads them if needed).
+   */
+  async getConversations(): Promise<ConversationMeta[]> {
+    if (this.conversations.length === 0) {
+      // Share one load between the tree and other callers
+      const loading = (this.loading ??= this.loadConversations());
+      let conversations: ConversationMeta[];
+      try {
+        conversations = await loading;
+      } catch (err) {
+        // Let the next caller try again instead of sharing the failure
+        if (this.loading === loading) {
+          this.loading = undefined;
+        }
+        throw err;
+      }
+      if (this.loading === loading) {
+        this.loading = undefined;
+        this.conversations = conversations;
+        this._onDidLoadConversations.fire(conversations);
+      }
+      return conversations;
+    }
+    return this.conversations;
+  }
 
   getTreeItem(element: TreeItem): vscode.TreeItem {
     return element;
@@ -110,17 +462,54 @@ export class ConversationProvider
       return this.getRootItems();
     }
     if (element instanceof GroupItem) {
-      return element.conversations.map((c) => new ConversationItem(c));
+      const pricing = getPricingTable();
+      return element.conversations.map((c) => this.conversationItem(c, pricing));
+    }
+    if (element instanceof ConversationItem) {
+      return this.getSubAgents(element.meta).map((run) => new SubAgentItem(element.meta, run));
+    }
+    if (element instanceof DeletedGroupItem) {
+      return element.deleted.map((d) => new DeletedItem(d));
     }
     return [];
   }
 
+  private conversationItem(meta: ConversationMeta, pricing: PricingTable): ConversationItem {
+    const worktree = this.folderDirs
+      .map((f) => this.folderDirOf(f.dirs, meta)?.worktree)
+      .find((w) => w !== undefined);
+    return new ConversationItem(meta, pricing, worktree, this.tabs.openTabOf(meta.sessionId) !== undefined);
+  }
+
+  private getSubAgents(meta: ConversationMeta): SubAgentRun[] {
+    const mtime = meta.timestamp.getTime();
+    const cached = this.subAgents.get(meta.filePath);
+    if (cached?.mtime === mtime) {
+      return cached.runs;
+    }
+    let runs: SubAgentRun[] = [];
+    try {
+      runs = readSubAgents(meta.filePath);
+    } catch {
+      // File removed since the list was loaded
+    }
+    this.subAgents.set(meta.filePath, { mtime, runs });
+    return runs;
+  }
+
   private async getRootItems(): Promise<TreeItem[]> {
-    if (this.conversations.length === 0) {
-      this.conversations = await this.loadConversations();
+    const items = await this.getConversationItems();
+    const deleted = this.filterText
+      ? this.deleted.filter((d) => d.title.toLowerCase().includes(this.filterText))
+      : this.deleted;
+    if (deleted.length > 0) {
+      items.push(new DeletedGroupItem(deleted));
     }
+    return items;
+  }
 
-    let filtered = this.conversations;
+  private async getConversationItems(): Promise<TreeItem[]> {
+    let filtered = await this.getConversations();
     if (this.filterText) {
       filtered = filtered.filter(
         (c) =>
@@ -128,6 +517,10 @@ export class ConversationProvider
           (c.gitBranch?.toLowerCase().includes(this.filterText) ?? false)
       );
     }
+    if (this.stateFilter) {
+      const states = this.stateFilter;
+      filtered = filtered.filter((c) => states.has(stateFilterKey(c)));
+    }
 
     const pinned = filtered.filter((c) => c.isPinned);
     const unpinned = filtered.filter((c) => !c.isPinned);
@@ -145,28 +538,120 @@ export class ConversationProvider
       );
     }
 
+    // All Projects mode: one group per project, the current one expanded
+    if (this.allProjects) {
+      for (const group of groupByProject(unpinned)) {
+        const isCurrent = group.conversations.some((c) => this.isInWorkspace(c));
+        items.push(GroupItem.forProject(group, isCurrent));
+      }
+      return items;
+    }
+
+    // Multi-root workspace: one group per folder
+    if (this.folderDirs.length > 1) {
+      for (const { folder, dirs } of this.folderDirs) {
+        const conversations = unpinned.filter((c) => this.folderDirOf(dirs, c) !== undefined);
+        if (conversations.length > 0) {
+          items.push(
+            GroupItem.forProject(
+              makeProjectGroup(folder.uri.fsPath, folder.name, conversations),
+              true
+            )
+          );
+        }
+      }
+      return items;
+    }
+
     // Flat list for current workspace (no project grouping)
+    const pricing = getPricingTable();
     for (const c of unpinned) {
-      items.push(new ConversationItem(c));
+      items.push(this.conversationItem(c, pricing));
     }
 
     return items;
   }
 
   private async loadConversations(): Promise<ConversationMeta[]> {
-    if (!this.currentWorkspacePath) {
-      return [];
+    const hasWorktrees = this.workspaceFolders.some(
+      (folder) => (listWorktrees(folder.uri.fsPath)?.worktrees.length ?? 0) > 1
+    );
+    void vscode.commands.executeCommand("setContext", "claudeConversations.hasWorktrees", hasWorktrees);
+    this.folderDirs = this.workspaceFolders.map((folder) => ({
+      folder,
+      dirs: this.findFolderProjectDirs(folder.uri.fsPath),
+    }));
+    if (this.allProjects) {
+      const all = await loadAllConversations(this.cache, this.resolver, getDetectionConfig());
+      this.deleted = this.loadDeleted(listAllProjectDirs());
+      this.cache.save();
+      return this.applyPins(all);
+    }
+    // Several directories can belong to one folder (e.g. opened via a symlink)
+    const projectDirs = new Set(this.folderDirs.flatMap((f) => Array.from(f.dirs.keys())));
+    const detection = getDetectionConfig();
+    const conversations: ConversationMeta[] = [];
+    for (const dirPath of projectDirs) {
+      conversations.push(
+        ...(await loadConversationsForProject(dirPath, this.cache, this.resolver, detection))
+      );
     }
+    conversations.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    this.deleted = this.loadDeleted(Array.from(projectDirs));
+    this.cache.save();
+    return this.applyPins(conversations.filter((c) => this.isInWorkspace(c)));
+  }
 
-    // Claude encodes project paths by replacing / and . with -
-    const projectDir = this.currentWorkspacePath.replace(/[/.]/g, "-");
-    const conversations = await loadConversationsForProject(projectDir);
-    const pinnedIds = getPinnedSessionIds();
+  private loadDeleted(projectDirs: string[]): DeletedConversation[] {
+    return projectDirs
+      .flatMap((dir) => listDeleted(dir, this.cache))
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  /**
+   * Project directories for a workspace folder. When the folder is in a git
+   * repository with several worktrees, the same folder in the other
+   * worktrees is included too (unless restricted to the current worktree).
+   */
+  private findFolderProjectDirs(folderPath: string): Map<string, FolderDir> {
+    const dirs = new Map<string, FolderDir>();
+    const info = listWorktrees(folderPath);
+    if (!info || info.worktrees.length < 2) {
+      for (const dir of this.resolver.findProjectDirs(folderPath)) {
+        dirs.set(dir, { workspacePath: folderPath });
+      }
+      return dirs;
+    }
+    // The folder may be a subdirectory of the worktree
+    const relative = path.relative(info.current.path, folderPath);
+    const worktrees = this.currentWorktreeOnly ? [info.current] : info.worktrees;
+    for (const worktree of worktrees) {
+      const candidate = worktree === info.current ? folderPath : path.join(worktree.path, relative);
+      for (const dir of this.resolver.findProjectDirs(candidate)) {
+        dirs.set(dir, { workspacePath: candidate, worktree });
+      }
+    }
+    return dirs;
+  }
 
+  /**
+   * The folder's project directory holding a session, if the session ran
+   * in that folder.
+   */
+  private folderDirOf(dirs: Map<string, FolderDir>, meta: ConversationMeta): FolderDir | undefined {
+    const dir = dirs.get(path.dirname(meta.filePath));
+    return dir && this.resolver.isSessionOf(meta.filePath, dir.workspacePath) ? dir : undefined;
+  }
+
+  private isInWorkspace(meta: ConversationMeta): boolean {
+    return this.folderDirs.some((f) => this.folderDirOf(f.dirs, meta) !== undefined);
+  }
+
+  private applyPins(conversations: ConversationMeta[]): ConversationMeta[] {
+    const pinnedIds = getPinnedSessionIds();
     for (const c of conversations) {
       c.isPinned = pinnedIds.has(c.sessionId);
     }
-
     return conversations;
   }
 }
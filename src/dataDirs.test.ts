@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach, beforeEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  resolveDataDirs,
+  setClaudeDataDirs,
+  dataDirFor,
+  ClaudeDataDir,
+} from "./dataDirs";
+import { getPinnedSessionIds, pinSession, unpinSession } from "./pinManager";
+
+// --- helpers ---
+
+const tmpDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dataDirs-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function readPins(dir: ClaudeDataDir): string[] {
+  return JSON.parse(fs.readFileSync(path.join(dir.path, "conversation-pins.json"), "utf8")).pinnedSessionIds;
+}
+
+afterEach(() => {
+  setClaudeDataDirs(resolveDataDirs(undefined));
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("resolveDataDirs", () => {
+  it("defaults to CLAUDE_CONFIG_DIR, then ~/.claude", () => {
+    expect(resolveDataDirs([], { CLAUDE_CONFIG_DIR: "/opt/claude-work" }, "/home/me")).toEqual([
+      { path: "/opt/claude-work", label: "claude-work" },
+    ]);
+    expect(resolveDataDirs(undefined, {}, "/home/me")).toEqual([
+      { path: "/home/me/.claude", label: "claude" },
+    ]);
+  });
+
+  it("expands ~, keeps explicit labels and drops duplicates and blanks", () => {
+    const dirs = resolveDataDirs(
+      [
+        "~/.claude",
+        { path: "~/.claude-work", label: "work" },
+        "/home/me/.claude/",
+        "  ",
+        { path: "" },
+      ],
+      { CLAUDE_CONFIG_DIR: "/ignored" },
+      "/home/me"
+    );
+    expect(dirs).toEqual([
+      { path: "/home/me/.claude", label: "claude" },
+      { path: "/home/me/.claude-work", label: "work" },
+    ]);
+  });
+});
+
+describe("dataDirFor", () => {
+  it("finds the data directory containing a path", () => {
+    const dirs = resolveDataDirs(["/a/.claude", "/a/.claude-work"], {}, "/home/me");
+    setClaudeDataDirs(dirs);
+    expect(dataDirFor("/a/.claude-work/projects/-x/s.jsonl")).toBe(dirs[1]);
+    expect(dataDirFor("/a/.claude/projects/-x")).toBe(dirs[0]);
+    expect(dataDirFor("/a/.claude")).toBeUndefined();
+    expect(dataDirFor("/elsewhere/s.jsonl")).toBeUndefined();
+  });
+});
+
+describe("pins across data directories", () => {
+  // os.homedir() follows HOME; keep the real ~/.claude out of these tests
+  const realHome = process.env.HOME;
+  let home: string;
+  beforeEach(() => {
+    home = createTempDir();
+    process.env.HOME = home;
+  });
+  afterEach(() => {
+    process.env.HOME = realHome;
+  });
+
+  it("merges pins from every directory, adds to the first and removes from all", () => {
+    const root = createTempDir();
+    const dirs = resolveDataDirs([path.join(root, "personal"), path.join(root, "work")], {}, root);
+    setClaudeDataDirs(dirs);
+    fs.mkdirSync(dirs[1].path, { recursive: true });
+    fs.writeFileSync(
+      path.join(dirs[1].path, "conversation-pins.json"),
+      JSON.stringify({ pinnedSessionIds: ["w1"] })
+    );
+
+    pinSession("p1");
+    pinSession("w1"); // already pinned in the work profile
+    expect(Array.from(getPinnedSessionIds()).sort()).toEqual(["p1", "w1"]);
+    expect(readPins(dirs[0])).toEqual(["p1"]);
+
+    unpinSession("w1");
+    expect(readPins(dirs[1])).toEqual([]);
+    expect(Array.from(getPinnedSessionIds())).toEqual(["p1"]);
+  });
+
+  it("keeps reading pins saved in ~/.claude when the data directory is elsewhere", () => {
+    const legacy = path.join(home, ".claude", "conversation-pins.json");
+    fs.mkdirSync(path.dirname(legacy), { recursive: true });
+    fs.writeFileSync(legacy, JSON.stringify({ pinnedSessionIds: ["old"] }));
+    const dirs = resolveDataDirs([], { CLAUDE_CONFIG_DIR: path.join(home, "claude-work") }, home);
+    setClaudeDataDirs(dirs);
+
+    pinSession("new");
+    expect(Array.from(getPinnedSessionIds()).sort()).toEqual(["new", "old"]);
+    expect(readPins(dirs[0])).toEqual(["new"]);
+
+    unpinSession("old");
+    expect(JSON.parse(fs.readFileSync(legacy, "utf8")).pinnedSessionIds).toEqual([]);
+    expect(Array.from(getPinnedSessionIds())).toEqual(["new"]);
+  });
+});
@@ -0,0 +1,84 @@
+import * as path from "path";
+import * as os from "os";
+
+/**
+ * A Claude Code data directory (what CLAUDE_CONFIG_DIR points at), holding
+ * `projects/` with the session files. The label tells profiles apart when
+ * several directories are configured.
+ */
+export interface ClaudeDataDir {
+  path: string;
+  label: string;
+}
+
+/**
+ * Entry of the claudeConversations.dataDirectories setting.
+ */
+export type DataDirSetting = string | { path: string; label?: string };
+
+function expandHome(p: string, home: string): string {
+  if (p === "~") return home;
+  if (p.startsWith("~/") || p.startsWith("~\\")) return path.join(home, p.slice(2));
+  return p;
+}
+
+function defaultLabel(dirPath: string): string {
+  return path.basename(dirPath).replace(/^\./, "") || dirPath;
+}
+
+/**
+ * Resolve the configured data directories. With nothing configured, use
+ * CLAUDE_CONFIG_DIR, then ~/.claude — the same lookup as Claude Code.
+ */
+export function resolveDataDirs(
+  setting: DataDirSetting[] | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+  home: string = os.homedir()
+): ClaudeDataDir[] {
+  const dirs: ClaudeDataDir[] = [];
+  for (const entry of setting ?? []) {
+    const raw = typeof entry === "string" ? entry : entry?.path;
+    if (typeof raw !== "string" || !raw.trim()) {
+      continue;
+    }
+    const dirPath = path.resolve(expandHome(raw.trim(), home));
+    if (dirs.some((d) => d.path === dirPath)) {
+      continue;
+    }
+    const label = typeof entry === "object" && entry.label ? entry.label : defaultLabel(dirPath);
+    dirs.push({ path: dirPath, label });
+  }
+  if (dirs.length === 0) {
+    const dirPath = env.CLAUDE_CONFIG_DIR
+      ? path.resolve(expandHome(env.CLAUDE_CONFIG_DIR, home))
+      : path.join(home, ".claude");
+    dirs.push({ path: dirPath, label: defaultLabel(dirPath) });
+  }
+  return dirs;
+}
+
+// Directories in effect; replaced by the extension when the setting changes
+let current: ClaudeDataDir[] | undefined;
+
+export function setClaudeDataDirs(dirs: ClaudeDataDir[]): void {
+  current = dirs;
+}
+
+export function getClaudeDataDirs(): ClaudeDataDir[] {
+  current ??= resolveDataDirs(undefined);
+  return current;
+}
+
+export function projectsDirOf(dir: ClaudeDataDir): string {
+  return path.join(dir.path, "projects");
+}
+
+/**
+ * The data directory a session file or project directory belongs to.
+ */
+export function dataDirFor(filePath: string): ClaudeDataDir | undefined {
+  return getClaudeDataDirs().find((d) => {
+    const rel = path.relative(d.path, filePath);
+    return rel !== "" && !rel.startsWith("..") && !path.isAbsolute(rel);
+  });
+}
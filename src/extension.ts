@@ -1,18 +1,56 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { ConversationProvider, ConversationItem } from "./conversationProvider";
+import {
+  ConversationProvider,
+  ConversationItem,
+  SubAgentItem,
+  DeletedGroupItem,
+  DeletedItem,
+  STATE_FILTER_DISPLAY,
+  OpenTabDecorationProvider,
+} from "./conversationProvider";
 import { pinSession, unpinSession, isPinned } from "./pinManager";
-import { getClaudeProjectsDir } from "./conversationParser";
+import { getClaudeProjectsDirs, loadAllConversations } from "./conversationParser";
 import { ConversationMeta } from "./types";
+import { StateFilterKey, finishedBefore } from "./stateTransitions";
+import { SubAgentRun } from "./subAgents";
 import { TabSessionTracker } from "./tabSessionTracker";
+import { MetadataCache } from "./metadataCache";
+import { ProjectPathResolver } from "./projectPaths";
+import { SearchIndex, readSnippet } from "./searchIndex";
+import { TranscriptProvider, TRANSCRIPT_SCHEME } from "./transcriptProvider";
+import {
+  readTranscript,
+  renderTranscriptMarkdown,
+  ExportOptions,
+} from "./transcript";
+import { renderTranscriptHtml } from "./transcriptHtml";
+import { UsageDashboard } from "./usageDashboard";
+import {
+  getPricingTable,
+  getDataDirectories,
+  getTrashAutoPurgeDays,
+  getStaleTabHours,
+  getDetectionConfig,
+} from "./config";
+import { setClaudeDataDirs } from "./dataDirs";
+import { log } from "./log";
+import { SessionNotifier } from "./notifications";
+import { SessionStatusBar } from "./statusBar";
+import { moveToTrash, restoreDeleted, purgeDeleted, purgeExpired } from "./trash";
 
 // Flag to suppress open when togglePin triggers list.select
 let suppressOpen = false;
 
 export function activate(context: vscode.ExtensionContext) {
-  const provider = new ConversationProvider();
-  const tabTracker = new TabSessionTracker();
+  setClaudeDataDirs(getDataDirectories());
+  const cache = new MetadataCache(
+    path.join(context.globalStorageUri.fsPath, "metadata-cache.json"),
+  );
+  const resolver = new ProjectPathResolver(getClaudeProjectsDirs);
+  const tabTracker = new TabSessionTracker(context.storageUri);
+  const provider = new ConversationProvider(cache, resolver, context.workspaceState, tabTracker);
 
   // Register for both sidebar locations
   const treeView1 = vscode.window.createTreeView("claudeConversations", {
@@ -34,6 +72,26 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  // Toggle between the current workspace and all projects
+  context.subscriptions.push(
+    vscode.commands.registerCommand("claudeConversations.showAllProjects", () => {
+      provider.setAllProjects(true);
+    }),
+    vscode.commands.registerCommand("claudeConversations.showCurrentProject", () => {
+      provider.setAllProjects(false);
+    }),
+  );
+
+  // Restrict to the current git worktree, or include all worktrees of the repository
+  context.subscriptions.push(
+    vscode.commands.registerCommand("claudeConversations.showCurrentWorktree", () => {
+      provider.setCurrentWorktreeOnly(true);
+    }),
+    vscode.commands.registerCommand("claudeConversations.showAllWorktrees", () => {
+      provider.setCurrentWorktreeOnly(false);
+    }),
+  );
+
   // New session
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -59,7 +117,7 @@ export function activate(context: vscode.ExtensionContext) {
         if (suppressOpen) return;
         try {
           // Check if this session already has an open tab
-          const existing = tabTracker.findTabForSession(meta.sessionId, meta.title);
+          const existing = await tabTracker.findTabForSession(meta.sessionId, meta.title);
           if (existing) {
             await tabTracker.focusTab(existing);
             return;
@@ -81,6 +139,228 @@ export function activate(context: vscode.ExtensionContext) {
     ),
   );
 
+  // Mark conversations that are open in an editor tab. Conversation titles
+  // help recognize tabs of sessions started elsewhere.
+  context.subscriptions.push(
+    tabTracker,
+    vscode.window.registerFileDecorationProvider(new OpenTabDecorationProvider()),
+    tabTracker.onDidChangeOpenSessions(() => provider.redraw()),
+    provider.onDidLoadConversations((conversations) => tabTracker.setConversations(conversations)),
+  );
+
+  // Focus or close the tab of a conversation
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.revealTab",
+      async (item: ConversationItem) => {
+        if (!item?.meta) return;
+        const existing = await tabTracker.findTabForSession(item.meta.sessionId, item.meta.title);
+        if (existing) {
+          await tabTracker.focusTab(existing);
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "claudeConversations.closeTab",
+      async (item: ConversationItem) => {
+        if (!item?.meta) return;
+        const existing = await tabTracker.findTabForSession(item.meta.sessionId, item.meta.title);
+        if (!existing) return;
+        try {
+          await vscode.window.tabGroups.close(existing.tab);
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to close tab: ${err}`);
+        }
+      },
+    ),
+  );
+
+  // Open conversation in the editor group to the right (moving its tab there if already open)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.openToSide",
+      async (item: ConversationItem) => {
+        if (!item?.meta) return;
+        const meta = item.meta;
+        try {
+          const existing = await tabTracker.findTabForSession(meta.sessionId, meta.title);
+          if (existing) {
+            await tabTracker.focusTab(existing);
+            await vscode.commands.executeCommand("workbench.action.moveEditorToRightGroup");
+            return;
+          }
+
+          // Focus the group to the right, creating one if this is the rightmost
+          const active = vscode.window.tabGroups.activeTabGroup.viewColumn;
+          const hasRightGroup = vscode.window.tabGroups.all.some((g) => g.viewColumn > active);
+          await vscode.commands.executeCommand(
+            hasRightGroup ? "workbench.action.focusRightGroup" : "workbench.action.newGroupRight",
+          );
+          tabTracker.registerOpen(meta.sessionId, meta.title);
+          await vscode.commands.executeCommand(
+            "claude-vscode.editor.open",
+            meta.sessionId,
+            undefined,
+          );
+        } catch {
+          vscode.window.showInformationMessage(
+            `Session: ${meta.sessionId}\nClaude Code extension may not be installed.`,
+          );
+        }
+      },
+    ),
+  );
+
+  // Close the tabs of sessions that finished longer ago than the configured
+  // age. Tabs matched only by a guessed title are left open.
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.closeStaleTabs",
+      async () => {
+        const cutoff = new Date(Date.now() - getStaleTabHours() * 60 * 60 * 1000);
+        const tabs = finishedBefore(await provider.getConversations(), cutoff)
+          .map((meta) => tabTracker.openTabOf(meta.sessionId, true)?.tab)
+          .filter((tab): tab is vscode.Tab => tab !== undefined);
+        if (tabs.length === 0) {
+          vscode.window.showInformationMessage("No stale Claude tabs to close");
+          return;
+        }
+        try {
+          await vscode.window.tabGroups.close(tabs);
+          vscode.window.showInformationMessage(
+            `Closed ${tabs.length} stale Claude tab${tabs.length === 1 ? "" : "s"}`,
+          );
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to close tabs: ${err}`);
+        }
+      },
+    ),
+  );
+
+  // View read-only transcript
+  const transcriptProvider = new TranscriptProvider();
+  context.subscriptions.push(
+    transcriptProvider,
+    vscode.workspace.registerTextDocumentContentProvider(
+      TRANSCRIPT_SCHEME,
+      transcriptProvider,
+    ),
+    vscode.languages.registerFoldingRangeProvider(
+      { scheme: TRANSCRIPT_SCHEME },
+      transcriptProvider,
+    ),
+    vscode.commands.registerCommand(
+      "claudeConversations.viewTranscript",
+      async (item: ConversationItem) => {
+        if (!item?.meta) return;
+        try {
+          await transcriptProvider.show(item.meta);
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to open transcript: ${err}`);
+        }
+      },
+    ),
+  );
+
+  // View the transcript of a single sub-agent
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.viewSubAgentTranscript",
+      async (arg: ConversationMeta | SubAgentItem, run?: SubAgentRun) => {
+        // Invoked from the tree item command (meta, run) or the context menu (item)
+        if (arg instanceof SubAgentItem) {
+          run = arg.run;
+          arg = arg.meta;
+        }
+        if (!arg || !run) return;
+        try {
+          await transcriptProvider.show(arg, run);
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to open transcript: ${err}`);
+        }
+      },
+    ),
+  );
+
+  // Export conversation as Markdown
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.exportMarkdown",
+      async (item: ConversationItem) => {
+        if (!item?.meta) return;
+        const meta = item.meta;
+
+        const options = await pickExportOptions();
+        if (!options) return;
+        const target = await pickExportTarget(meta, "md", { Markdown: ["md"] });
+        if (!target) return;
+
+        try {
+          const markdown = renderTranscriptMarkdown(
+            readTranscript(meta.filePath),
+            {
+              title: meta.title,
+              sessionId: meta.sessionId,
+              model: meta.model,
+              gitBranch: meta.gitBranch,
+            },
+            options,
+          );
+          fs.writeFileSync(target.fsPath, markdown, "utf8");
+          const action = await vscode.window.showInformationMessage(
+            `Exported to ${path.basename(target.fsPath)}`,
+            "Open",
+          );
+          if (action === "Open") {
+            await vscode.window.showTextDocument(target);
+          }
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to export: ${err}`);
+        }
+      },
+    ),
+  );
+
+  // Export conversation as self-contained HTML
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.exportHtml",
+      async (item: ConversationItem) => {
+        if (!item?.meta) return;
+        const meta = item.meta;
+
+        const options = await pickExportOptions();
+        if (!options) return;
+        const target = await pickExportTarget(meta, "html", { HTML: ["html"] });
+        if (!target) return;
+
+        try {
+          const html = renderTranscriptHtml(
+            readTranscript(meta.filePath),
+            {
+              title: meta.title,
+              sessionId: meta.sessionId,
+              model: meta.model,
+              gitBranch: meta.gitBranch,
+              timestamp: meta.timestamp,
+            },
+            options,
+          );
+          fs.writeFileSync(target.fsPath, html, "utf8");
+          const action = await vscode.window.showInformationMessage(
+            `Exported to ${path.basename(target.fsPath)}`,
+            "Open in Browser",
+          );
+          if (action === "Open in Browser") {
+            await vscode.env.openExternal(target);
+          }
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to export: ${err}`);
+        }
+      },
+    ),
+  );
+
   // Pin conversation
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -181,16 +461,7 @@ export function activate(context: vscode.ExtensionContext) {
         if (confirm !== "Delete") return;
 
         try {
-          const backupDir = path.join(
-            path.dirname(item.meta.filePath),
-            ".bak",
-          );
-          fs.mkdirSync(backupDir, { recursive: true });
-          const backupPath = path.join(
-            backupDir,
-            path.basename(item.meta.filePath),
-          );
-          fs.renameSync(item.meta.filePath, backupPath);
+          moveToTrash(item.meta.filePath, isPinned(item.meta.sessionId));
 
           unpinSession(item.meta.sessionId);
           provider.refresh();
@@ -202,6 +473,53 @@ export function activate(context: vscode.ExtensionContext) {
     ),
   );
 
+  // Restore a deleted conversation (re-pinned if it was pinned)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.restoreDeleted",
+      (item?: DeletedItem) => {
+        if (!item?.deleted) return;
+        try {
+          restoreDeleted(item.deleted);
+          provider.refresh();
+          vscode.window.showInformationMessage("Session restored");
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to restore: ${err}`);
+        }
+      },
+    ),
+  );
+
+  // Permanently delete one deleted conversation, or all of them
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "claudeConversations.purgeDeleted",
+      async (item?: DeletedItem | DeletedGroupItem) => {
+        const deleted =
+          item instanceof DeletedItem ? [item.deleted] : (item?.deleted ?? []);
+        if (deleted.length === 0) return;
+
+        const confirm = await vscode.window.showWarningMessage(
+          deleted.length === 1
+            ? `Permanently delete session "${deleted[0].title}"?`
+            : `Permanently delete ${deleted.length} sessions?`,
+          { modal: true, detail: "This cannot be undone." },
+          "Delete Permanently",
+        );
+        if (confirm !== "Delete Permanently") return;
+
+        try {
+          for (const entry of deleted) {
+            purgeDeleted(entry);
+          }
+        } catch (err) {
+          vscode.window.showErrorMessage(`Failed to delete: ${err}`);
+        }
+        provider.refresh();
+      },
+    ),
+  );
+
   // Toggle pin (p key) — select focused item first (suppressing open), then toggle
   context.subscriptions.push(
     vscode.commands.registerCommand("claudeConversations.togglePin", async () => {
@@ -235,6 +553,116 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  // Filter conversations by session state
+  context.subscriptions.push(
+    vscode.commands.registerCommand("claudeConversations.filterByState", async () => {
+      const current = provider.getStateFilter();
+      const items = (Object.keys(STATE_FILTER_DISPLAY) as StateFilterKey[]).map((state) => ({
+        label: `$(${STATE_FILTER_DISPLAY[state].icon.replace("~spin", "")}) ${STATE_FILTER_DISPLAY[state].label}`,
+        picked: current?.has(state) ?? false,
+        state,
+      }));
+      const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: "Show sessions in these states (none selected shows all)",
+      });
+      if (picked === undefined) {
+        return;
+      }
+      const showAll = picked.length === 0 || picked.length === items.length;
+      provider.setStateFilter(showAll ? undefined : new Set(picked.map((item) => item.state)));
+    }),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("claudeConversations.clearStateFilter", () => {
+      provider.setStateFilter(undefined);
+    }),
+  );
+
+  // Full-text search across conversation contents. The index follows the
+  // listed sessions in the background (reloaded when the watcher sees changes).
+  const searchIndex = new SearchIndex();
+  context.subscriptions.push(
+    provider.onDidLoadConversations((conversations) => {
+      void searchIndex.updateInBackground(conversations.map((c) => c.filePath));
+    }),
+    vscode.commands.registerCommand(
+      "claudeConversations.searchContents",
+      async () => {
+        const conversations = await provider.getConversations();
+        const byPath = new Map(conversations.map((c) => [c.filePath, c]));
+
+        type SearchItem = vscode.QuickPickItem & { meta: ConversationMeta };
+        const quickPick = vscode.window.createQuickPick<SearchItem>();
+        quickPick.placeholder = "Search prompts, responses and tool inputs";
+        // Let VSCode highlight the query in the snippet; alwaysShow keeps
+        // index matches whose snippet doesn't contain every word
+        quickPick.matchOnDetail = true;
+
+        const runSearch = (value: string) => {
+          quickPick.items = searchIndex
+            .search(value, 30)
+            .filter((hit) => byPath.has(hit.filePath))
+            .map((hit) => {
+              const meta = byPath.get(hit.filePath)!;
+              return {
+                label: meta.title,
+                description: [meta.gitBranch, meta.timestamp.toLocaleString()]
+                  .filter(Boolean)
+                  .join(" · "),
+                detail: readSnippet(hit.filePath, hit.lineOffset, value),
+                alwaysShow: true,
+                meta,
+              };
+            });
+        };
+
+        let searchTimer: ReturnType<typeof setTimeout> | undefined;
+        quickPick.onDidChangeValue((value) => {
+          if (searchTimer) clearTimeout(searchTimer);
+          searchTimer = setTimeout(() => runSearch(value), 150);
+        });
+
+        // Results cover what is indexed so far; search again once indexing is done
+        let hidden = false;
+        quickPick.busy = searchIndex.indexing;
+        void searchIndex.whenIdle().then(() => {
+          if (hidden) return;
+          quickPick.busy = false;
+          if (quickPick.value) runSearch(quickPick.value);
+        });
+
+        quickPick.onDidAccept(async () => {
+          const selected = quickPick.selectedItems[0];
+          quickPick.hide();
+          if (selected) {
+            await vscode.commands.executeCommand(
+              "claudeConversations.open",
+              selected.meta,
+            );
+          }
+        });
+        quickPick.onDidHide(() => {
+          hidden = true;
+          if (searchTimer) clearTimeout(searchTimer);
+          quickPick.dispose();
+        });
+        quickPick.show();
+      },
+    ),
+  );
+
+  // Usage dashboard across all projects
+  context.subscriptions.push(
+    vscode.commands.registerCommand("claudeConversations.usageDashboard", () => {
+      UsageDashboard.show(async () => {
+        const conversations = await loadAllConversations(cache, resolver, getDetectionConfig());
+        cache.save();
+        return conversations;
+      }, getPricingTable);
+    }),
+  );
+
   // Focus command (Cmd+8)
   context.subscriptions.push(
     vscode.commands.registerCommand("claudeConversations.focus", async () => {
@@ -250,27 +678,146 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
-  // Watch for .jsonl file changes — fast refresh (500ms debounce)
-  const claudeDir = getClaudeProjectsDir();
-  const watcher = vscode.workspace.createFileSystemWatcher(
-    new vscode.RelativePattern(claudeDir, "**/*.jsonl"),
+  // Re-render costs and waiting states when their settings change
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration("claudeConversations.pricing") ||
+        e.affectsConfiguration("claudeConversations.detection")
+      ) {
+        provider.refresh();
+      }
+    }),
   );
 
+  // Watch for .jsonl file changes — fast refresh (500ms debounce)
   let refreshTimer: ReturnType<typeof setTimeout> | undefined;
   const debouncedRefresh = () => {
     if (refreshTimer) clearTimeout(refreshTimer);
     refreshTimer = setTimeout(() => provider.refresh(), 500);
   };
 
-  watcher.onDidCreate(debouncedRefresh);
-  watcher.onDidChange(debouncedRefresh);
-  watcher.onDidDelete(debouncedRefresh);
+  // One watcher per data directory, recreated when the setting changes
+  let watchers: vscode.FileSystemWatcher[] = [];
+  const watchDataDirs = () => {
+    watchers.forEach((w) => w.dispose());
+    watchers = getClaudeProjectsDirs().map((dir) => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(dir, "**/*.jsonl"),
+      );
+      watcher.onDidCreate(debouncedRefresh);
+      watcher.onDidChange(debouncedRefresh);
+      watcher.onDidDelete(debouncedRefresh);
+      return watcher;
+    });
+  };
+  watchDataDirs();
+  context.subscriptions.push({ dispose: () => watchers.forEach((w) => w.dispose()) });
 
-  // Periodic refresh every 5s for real-time feel
-  const interval = setInterval(() => provider.refresh(), 5000);
+  // Switch data directories without reloading the window
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("claudeConversations.dataDirectories")) {
+        setClaudeDataDirs(getDataDirectories());
+        watchDataDirs();
+        provider.refresh();
+      }
+    }),
+  );
+
+  // Reload when folders are added to or removed from a multi-root workspace
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      provider.updateWorkspaceFolders();
+    }),
+  );
+
+  // Notify about sessions that need attention, and count them in the status bar
+  const notifier = new SessionNotifier();
+  const statusBar = new SessionStatusBar();
+  context.subscriptions.push(
+    statusBar,
+    provider.onDidLoadConversations((conversations) => {
+      notifier.check(conversations);
+      statusBar.update(conversations);
+    }),
+    vscode.commands.registerCommand("claudeConversations.showActiveSessions", () =>
+      statusBar.pickSession(),
+    ),
+  );
+
+  // Periodic refresh every 5s for real-time feel. Loading right away keeps
+  // notifications working while the view is hidden (the tree only loads when visible).
+  const interval = setInterval(() => {
+    provider.refresh();
+    provider.getConversations().catch((err) => log.appendLine(`Failed to load conversations: ${err}`));
+  }, 5000);
   context.subscriptions.push({ dispose: () => clearInterval(interval) });
+  context.subscriptions.push({ dispose: () => cache.save() });
 
-  context.subscriptions.push(treeView1, treeView2, watcher);
+  // Purge deleted conversations older than the configured age, shortly after
+  // startup (kept out of activation) and then hourly
+  const autoPurge = () => {
+    const days = getTrashAutoPurgeDays();
+    try {
+      if (days > 0 && purgeExpired(getClaudeProjectsDirs(), days) > 0) {
+        provider.refresh();
+      }
+    } catch {
+      // projects directory unreadable — try again next time
+    }
+  };
+  const firstPurge = setTimeout(autoPurge, 30 * 1000);
+  const purgeInterval = setInterval(autoPurge, 60 * 60 * 1000);
+  context.subscriptions.push({
+    dispose: () => {
+      clearTimeout(firstPurge);
+      clearInterval(purgeInterval);
+    },
+  });
+
+  context.subscriptions.push(treeView1, treeView2);
+}
+
+/**
+ * Ask which optional message kinds to include in an export.
+ */
+async function pickExportOptions(): Promise<ExportOptions | undefined> {
+  const sidechain = { label: "Include sub-agent (sidechain) messages" };
+  const meta = { label: "Include meta messages" };
+  const picked = await vscode.window.showQuickPick([sidechain, meta], {
+    canPickMany: true,
+    placeHolder: "Optional content to include (Enter to continue)",
+  });
+  if (!picked) return undefined;
+  return {
+    includeSidechain: picked.includes(sidechain),
+    includeMeta: picked.includes(meta),
+  };
+}
+
+/**
+ * Ask where to write an export, defaulting to the conversation title
+ * in the session's workspace folder (or the first one).
+ */
+async function pickExportTarget(
+  meta: ConversationMeta,
+  extension: string,
+  filters: Record<string, string[]>,
+): Promise<vscode.Uri | undefined> {
+  const fileName =
+    meta.title.replace(/[\\/:*?"<>|\r\n]+/g, " ").trim().slice(0, 60) ||
+    meta.sessionId;
+  const baseUri = (
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(meta.projectPath)) ??
+    vscode.workspace.workspaceFolders?.[0]
+  )?.uri;
+  return vscode.window.showSaveDialog({
+    defaultUri: baseUri
+      ? vscode.Uri.joinPath(baseUri, `${fileName}.${extension}`)
+      : undefined,
+    filters,
+  });
 }
 
 export function deactivate() {}
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { listWorktrees, worktreeLabel } from "./gitWorktrees";
+
+// --- helpers ---
+
+const tmpDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "gitWorktrees-test-")));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function write(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+/**
+ * Lay out a repository the way `git worktree add` does: the main checkout
+ * with a .git directory, and linked worktrees whose .git file points into
+ * .git/worktrees/<name>.
+ */
+function createRepo(root: string, linked: { name: string; dir: string; head: string }[]): string {
+  const main = path.join(root, "repo");
+  write(path.join(main, ".git", "HEAD"), "ref: refs/heads/main\n");
+  fs.mkdirSync(path.join(main, "src"), { recursive: true });
+  for (const wt of linked) {
+    const adminDir = path.join(main, ".git", "worktrees", wt.name);
+    write(path.join(adminDir, "HEAD"), wt.head + "\n");
+    write(path.join(adminDir, "commondir"), "../..\n");
+    write(path.join(adminDir, "gitdir"), path.join(wt.dir, ".git") + "\n");
+    write(path.join(wt.dir, ".git"), `gitdir: ${adminDir}\n`);
+  }
+  return main;
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("listWorktrees", () => {
+  it("returns undefined outside a repository", () => {
+    expect(listWorktrees(createTempDir())).toBeUndefined();
+  });
+
+  it("lists the main and linked worktrees from the main checkout", () => {
+    const root = createTempDir();
+    const feature = path.join(root, "repo-feature");
+    const detached = path.join(root, "repo-detached");
+    const main = createRepo(root, [
+      { name: "repo-feature", dir: feature, head: "ref: refs/heads/feature/login" },
+      { name: "repo-detached", dir: detached, head: "0123456789abcdef0123456789abcdef01234567" },
+    ]);
+
+    const info = listWorktrees(path.join(main, "src"))!;
+    expect(info.worktrees).toEqual([
+      { path: main, isMain: true, branch: "main" },
+      { path: detached, isMain: false, head: "0123456" },
+      { path: feature, isMain: false, branch: "feature/login" },
+    ]);
+    expect(info.current.path).toBe(main);
+  });
+
+  it("finds the shared repository from a linked worktree", () => {
+    const root = createTempDir();
+    const feature = path.join(root, "wt", "feature");
+    const main = createRepo(root, [
+      { name: "feature", dir: feature, head: "ref: refs/heads/feature" },
+    ]);
+
+    const info = listWorktrees(feature)!;
+    expect(info.worktrees.map((w) => w.path)).toEqual([main, feature]);
+    expect(info.current).toMatchObject({ path: feature, branch: "feature", isMain: false });
+  });
+
+  it("skips worktrees whose directory was deleted", () => {
+    const root = createTempDir();
+    const gone = path.join(root, "gone");
+    const main = createRepo(root, [{ name: "gone", dir: gone, head: "ref: refs/heads/x" }]);
+    fs.rmSync(gone, { recursive: true });
+
+    expect(listWorktrees(main)!.worktrees.map((w) => w.path)).toEqual([main]);
+  });
+
+  it("treats a submodule as its own repository, not the superproject's worktree", () => {
+    const root = createTempDir();
+    const main = createRepo(root, [
+      { name: "feature", dir: path.join(root, "repo-feature"), head: "ref: refs/heads/feature" },
+    ]);
+    // `git submodule add` keeps the submodule's git dir under .git/modules, without a commondir
+    const sub = path.join(main, "libs", "sub");
+    write(path.join(main, ".git", "modules", "sub", "HEAD"), "ref: refs/heads/trunk\n");
+    write(path.join(sub, ".git"), "gitdir: ../../.git/modules/sub\n");
+
+    const info = listWorktrees(sub)!;
+    expect(info.worktrees).toEqual([{ path: sub, isMain: true, branch: "trunk" }]);
+    expect(info.current.path).toBe(sub);
+  });
+});
+
+describe("worktreeLabel", () => {
+  it("combines the directory name with the branch or commit", () => {
+    expect(worktreeLabel({ path: "/a/repo-feature", branch: "feature", isMain: false })).toBe("repo-feature (feature)");
+    expect(worktreeLabel({ path: "/a/repo", head: "0123456", isMain: true })).toBe("repo (0123456)");
+    expect(worktreeLabel({ path: "/a/repo", isMain: true })).toBe("repo");
+  });
+});
@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as path from "path";
+import { samePath } from "./projectPaths";
+
+export interface Worktree {
+  path: string;
+  branch?: string; // undefined when HEAD is detached
+  head?: string; // abbreviated commit when detached
+  isMain: boolean;
+}
+
+export interface WorktreeInfo {
+  worktrees: Worktree[]; // main worktree first
+  current: Worktree; // the worktree containing the queried path
+}
+
+function readText(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, "utf8").trim();
+  } catch {
+    return undefined;
+  }
+}
+
+function readHead(gitDir: string): Pick<Worktree, "branch" | "head"> {
+  const head = readText(path.join(gitDir, "HEAD")) ?? "";
+  const ref = /^ref: refs\/heads\/(.+)$/.exec(head);
+  if (ref) {
+    return { branch: ref[1] };
+  }
+  return /^[0-9a-f]{7,}$/.test(head) ? { head: head.slice(0, 7) } : {};
+}
+
+/**
+ * Locate the git directory for `startPath`, walking up to the repository
+ * root. A `.git` file points at the checkout's git dir; for a linked
+ * worktree, its `commondir` leads back to the shared repository.
+ */
+function findGitDirs(startPath: string): { root: string; gitDir: string; commonDir: string } | undefined {
+  let dir = path.resolve(startPath);
+  for (;;) {
+    const dotGit = path.join(dir, ".git");
+    let stat: fs.Stats | undefined;
+    try {
+      stat = fs.statSync(dotGit);
+    } catch {
+      // Not here — keep walking up
+    }
+    if (stat?.isDirectory()) {
+      return { root: dir, gitDir: dotGit, commonDir: dotGit };
+    }
+    if (stat?.isFile()) {
+      const match = /^gitdir:\s*(.+)$/m.exec(readText(dotGit) ?? "");
+      if (!match) {
+        return undefined;
+      }
+      const gitDir = path.resolve(dir, match[1].trim());
+      // Git always writes commondir for linked worktrees; without it this is
+      // a standalone checkout (a submodule or --separate-git-dir)
+      const common = readText(path.join(gitDir, "commondir"));
+      const commonDir = common ? path.resolve(gitDir, common) : gitDir;
+      return { root: dir, gitDir, commonDir };
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * All worktrees of the repository containing `startPath`, read from the
+ * `.git` metadata on disk (no git executable needed).
+ */
+export function listWorktrees(startPath: string): WorktreeInfo | undefined {
+  const dirs = findGitDirs(startPath);
+  if (!dirs) {
+    return undefined;
+  }
+  const worktrees: Worktree[] = [];
+
+  // Main worktree — absent for bare repositories
+  if (path.basename(dirs.commonDir) === ".git") {
+    worktrees.push({ path: path.dirname(dirs.commonDir), isMain: true, ...readHead(dirs.commonDir) });
+  }
+
+  const linkedRoot = path.join(dirs.commonDir, "worktrees");
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(linkedRoot);
+  } catch {
+    // No linked worktrees
+  }
+  for (const name of names.sort()) {
+    const adminDir = path.join(linkedRoot, name);
+    // gitdir holds the path of the worktree's .git file
+    const dotGit = readText(path.join(adminDir, "gitdir"));
+    if (!dotGit) {
+      continue;
+    }
+    const worktreePath = path.dirname(path.resolve(adminDir, dotGit));
+    if (!fs.existsSync(worktreePath)) {
+      continue; // removed without `git worktree prune`
+    }
+    worktrees.push({ path: worktreePath, isMain: false, ...readHead(adminDir) });
+  }
+
+  let current = worktrees.find((w) => samePath(w.path, dirs.root));
+  if (!current) {
+    current = { path: dirs.root, isMain: dirs.gitDir === dirs.commonDir, ...readHead(dirs.gitDir) };
+    worktrees.push(current);
+  }
+  return { worktrees, current };
+}
+
+/**
+ * Short label for a worktree: its directory name and checked-out branch.
+ */
+export function worktreeLabel(worktree: Worktree): string {
+  const ref = worktree.branch ?? worktree.head;
+  const name = path.basename(worktree.path);
+  return ref ? `${name} (${ref})` : name;
+}
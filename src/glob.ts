@@ -0,0 +1,27 @@
+/**
+ * Convert a simple glob (`*` = any run of characters, `?` = one character)
+ * into an anchored RegExp.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+// Compiled patterns; they come from settings, so the set stays small
+const compiled = new Map<string, RegExp>();
+
+export function matchesGlob(pattern: string, value: string): boolean {
+  let regExp = compiled.get(pattern);
+  if (!regExp) {
+    regExp = globToRegExp(pattern);
+    compiled.set(pattern, regExp);
+  }
+  return regExp.test(value);
+}
@@ -0,0 +1,6 @@
+import * as vscode from "vscode";
+
+/**
+ * The extension's output channel (Output → Claude Conversations).
+ */
+export const log = vscode.window.createOutputChannel("Claude Conversations");
@@ -0,0 +1,407 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { readFileMetadata, tailConfigKey, DEFAULT_DETECTION_CONFIG } from "./conversationParser";
+import { MetadataCache } from "./metadataCache";
+import { usageBucketKey, localDay } from "./usage";
+
+// --- helpers ---
+
+const tmpDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "metadataCache-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function toJsonl(lines: unknown[]): string {
+  return lines.map((l) => JSON.stringify(l)).join("\n") + "\n";
+}
+
+function userMsg(content: string) {
+  return {
+    type: "user",
+    sessionId: "sess-1",
+    timestamp: "2026-02-19T00:00:00Z",
+    message: { role: "user", content },
+  };
+}
+
+function assistantMsg(content: string) {
+  return {
+    type: "assistant",
+    sessionId: "sess-1",
+    timestamp: "2026-02-19T00:00:01Z",
+    message: { role: "assistant", content, model: "claude-opus", stop_reason: "end_turn" },
+  };
+}
+
+function assistantRecord(id: string, blocks: unknown[], opts: { isSidechain?: boolean; model?: string } = {}) {
+  return {
+    type: "assistant",
+    sessionId: "sess-1",
+    ...(opts.isSidechain ? { isSidechain: true } : {}),
+    message: { role: "assistant", id, content: blocks, model: opts.model ?? "claude-opus" },
+  };
+}
+
+function toolUse(name: string) {
+  return { type: "tool_use", name };
+}
+
+function toolResult() {
+  return { type: "user", sessionId: "sess-1", message: { role: "user", content: [{ type: "tool_result", content: "ok" }] } };
+}
+
+function usageRecord(id: string, model: string, usage: Record<string, number>, opts: { isSidechain?: boolean } = {}) {
+  return {
+    type: "assistant",
+    sessionId: "sess-1",
+    ...(opts.isSidechain ? { isSidechain: true } : {}),
+    message: { role: "assistant", id, model, content: [{ type: "text", text: "x" }], usage },
+  };
+}
+
+function customTitle(title: string) {
+  return { type: "custom-title", customTitle: title, sessionId: "sess-1" };
+}
+
+function setMtime(filePath: string, seconds: number): void {
+  fs.utimesSync(filePath, seconds, seconds);
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("readFileMetadata: full scan", () => {
+  it("extracts head fields and the last custom title", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([
+      userMsg("first prompt"),
+      assistantMsg("ok"),
+      customTitle("renamed once"),
+      customTitle("renamed twice"),
+    ]));
+
+    const meta = readFileMetadata(f);
+    expect(meta).toMatchObject({
+      sessionId: "sess-1",
+      title: "first prompt",
+      model: "claude-opus",
+      customTitle: "renamed twice",
+      lineCount: 4,
+      offset: fs.statSync(f).size,
+    });
+  });
+
+  it("leaves an unterminated last line for the next scan", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    const complete = toJsonl([userMsg("hello")]);
+    fs.writeFileSync(f, complete + JSON.stringify(customTitle("partial")));
+
+    const meta = readFileMetadata(f);
+    expect(meta?.offset).toBe(Buffer.byteLength(complete));
+    expect(meta?.customTitle).toBeUndefined();
+  });
+
+  it("returns null for a missing file", () => {
+    expect(readFileMetadata("/tmp/nonexistent-file-abc123.jsonl")).toBeNull();
+  });
+});
+
+describe("readFileMetadata: cache reuse and invalidation", () => {
+  it("unchanged file → cached entry is returned as-is", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([userMsg("hello"), assistantMsg("hi")]));
+    const cache = new MetadataCache();
+
+    const first = readFileMetadata(f, cache);
+    const second = readFileMetadata(f, cache);
+    expect(second).toBe(first);
+  });
+
+  it("unchanged file read with other detection settings → tail is re-read", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([userMsg("hello"), assistantMsg("hi")]));
+    const cache = new MetadataCache();
+    const config = { ...DEFAULT_DETECTION_CONFIG, permissionTools: ["Bash"] };
+
+    const first = readFileMetadata(f, cache)!;
+    const second = readFileMetadata(f, cache, config)!;
+    expect(second).not.toBe(first);
+    expect(second.tailConfig).toBe(tailConfigKey(config));
+    expect(cache.get(f)).toBe(second);
+    expect(readFileMetadata(f, cache, config)).toBe(second);
+  });
+
+  it("append → only the appended bytes are scanned", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([userMsg("original"), assistantMsg("hi")]));
+    setMtime(f, 1_000_000);
+    const cache = new MetadataCache();
+    const first = readFileMetadata(f, cache)!;
+
+    // Rewrite the head in place (same length) and append a rename.
+    // An incremental scan must not see the modified head.
+    const rewritten = fs.readFileSync(f, "utf8").replace("original", "modified");
+    fs.writeFileSync(f, rewritten + toJsonl([customTitle("renamed")]));
+    setMtime(f, 1_000_010);
+
+    const meta = readFileMetadata(f, cache)!;
+    expect(meta.title).toBe("original");
+    expect(meta.customTitle).toBe("renamed");
+    expect(meta.lineCount).toBe(first.lineCount + 1);
+    expect(meta.offset).toBe(fs.statSync(f).size);
+  });
+
+  it("truncation → full rescan", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([userMsg("hello"), assistantMsg("hi"), customTitle("renamed")]));
+    setMtime(f, 1_000_000);
+    const cache = new MetadataCache();
+    expect(readFileMetadata(f, cache)?.customTitle).toBe("renamed");
+
+    fs.writeFileSync(f, toJsonl([userMsg("fresh start")]));
+    setMtime(f, 1_000_010);
+
+    const meta = readFileMetadata(f, cache)!;
+    expect(meta.title).toBe("fresh start");
+    expect(meta.customTitle).toBeUndefined();
+    expect(meta.lineCount).toBe(1);
+  });
+
+  it("same size but different mtime → full rescan", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([userMsg("aaaa")]));
+    setMtime(f, 1_000_000);
+    const cache = new MetadataCache();
+    readFileMetadata(f, cache);
+
+    fs.writeFileSync(f, toJsonl([userMsg("bbbb")]));
+    setMtime(f, 1_000_010);
+
+    expect(readFileMetadata(f, cache)?.title).toBe("bbbb");
+  });
+
+  it("rename → new path is scanned and the old entry is pruned", () => {
+    const dir = createTempDir();
+    const oldPath = path.join(dir, "old.jsonl");
+    const newPath = path.join(dir, "new.jsonl");
+    fs.writeFileSync(oldPath, toJsonl([userMsg("hello")]));
+    const cache = new MetadataCache();
+    readFileMetadata(oldPath, cache);
+
+    fs.renameSync(oldPath, newPath);
+    expect(readFileMetadata(oldPath, cache)).toBeNull();
+    expect(readFileMetadata(newPath, cache)?.title).toBe("hello");
+
+    cache.prune(dir, new Set([newPath]));
+    expect(cache.get(oldPath)).toBeUndefined();
+    expect(cache.get(newPath)).toBeDefined();
+  });
+
+  it("file replaced by a rename over it (different inode) → full rescan", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    const other = path.join(dir, "b.jsonl");
+    fs.writeFileSync(f, toJsonl([userMsg("first")]));
+    const cache = new MetadataCache();
+    readFileMetadata(f, cache);
+
+    fs.writeFileSync(other, toJsonl([userMsg("second"), customTitle("x")]));
+    fs.renameSync(other, f);
+
+    const meta = readFileMetadata(f, cache)!;
+    expect(meta.title).toBe("second");
+    expect(meta.customTitle).toBe("x");
+  });
+
+  it("prune ignores entries from other directories", () => {
+    const dirA = createTempDir();
+    const dirB = createTempDir();
+    const a = path.join(dirA, "a.jsonl");
+    const b = path.join(dirB, "b.jsonl");
+    fs.writeFileSync(a, toJsonl([userMsg("a")]));
+    fs.writeFileSync(b, toJsonl([userMsg("b")]));
+    const cache = new MetadataCache();
+    readFileMetadata(a, cache);
+    readFileMetadata(b, cache);
+
+    cache.prune(dirA, new Set());
+    expect(cache.get(a)).toBeUndefined();
+    expect(cache.get(b)).toBeDefined();
+  });
+});
+
+describe("readFileMetadata: message and tool call counts", () => {
+  it("counts prompts and assistant turns, ignoring meta, sidechain, tool_result and system records", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([
+      userMsg("first prompt"),
+      { ...userMsg("meta"), isMeta: true },
+      assistantRecord("msg_1", [{ type: "text", text: "let me look" }]),
+      assistantRecord("msg_1", [toolUse("Read")]),
+      toolResult(),
+      assistantRecord("msg_2", [toolUse("Bash"), toolUse("Grep")]),
+      toolResult(),
+      assistantRecord("msg_s", [toolUse("Read"), toolUse("Task")], { isSidechain: true }),
+      assistantRecord("msg_t", [toolUse("Task"), toolUse("Agent")]),
+      toolResult(),
+      userMsg("<task-notification>done</task-notification>"),
+      assistantRecord("msg_3", [{ type: "text", text: "done" }]),
+      { type: "user", sessionId: "sess-1", message: { role: "user", content: [{ type: "text", text: "[Request interrupted by user]" }] } },
+      assistantRecord("msg_x", [{ type: "text", text: "No response requested." }], { model: "<synthetic>" }),
+      userMsg("second prompt"),
+      { type: "file-history-snapshot" },
+    ]));
+
+    const meta = readFileMetadata(f)!;
+    // 2 prompts + msg_1, msg_2, msg_t, msg_3
+    expect(meta.messageCount).toBe(6);
+    expect(meta.toolCallCount).toBe(5);
+    expect(meta.subAgentCount).toBe(2);
+  });
+
+  it("counts stay exact across incremental scans, including a turn split by the append", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([
+      userMsg("hello"),
+      assistantRecord("msg_1", [{ type: "text", text: "checking" }]),
+    ]));
+    setMtime(f, 1_000_000);
+    const cache = new MetadataCache();
+    expect(readFileMetadata(f, cache)).toMatchObject({ messageCount: 2, toolCallCount: 0 });
+
+    fs.appendFileSync(f, toJsonl([
+      assistantRecord("msg_1", [toolUse("Bash")]),
+      toolResult(),
+      assistantRecord("msg_2", [{ type: "text", text: "done" }]),
+    ]));
+    setMtime(f, 1_000_010);
+
+    expect(readFileMetadata(f, cache)).toMatchObject({ messageCount: 3, toolCallCount: 1 });
+  });
+});
+
+describe("readFileMetadata: token usage", () => {
+  it("aggregates usage per model, counting each streamed message once", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([
+      userMsg("hello"),
+      // Streaming placeholder, then the final record of the same message
+      usageRecord("msg_1", "opus", { input_tokens: 10, output_tokens: 1 }),
+      usageRecord("msg_1", "opus", {
+        input_tokens: 10, output_tokens: 50, cache_creation_input_tokens: 100, cache_read_input_tokens: 1000,
+      }),
+      usageRecord("msg_2", "opus", { input_tokens: 5, output_tokens: 20 }),
+      usageRecord("msg_3", "haiku", { input_tokens: 7, output_tokens: 3 }, { isSidechain: true }),
+      usageRecord("msg_4", "<synthetic>", { input_tokens: 0, output_tokens: 0 }),
+    ]));
+
+    expect(readFileMetadata(f)?.usage).toEqual({
+      opus: { input: 15, output: 70, cacheCreation: 100, cacheRead: 1000 },
+      haiku: { input: 7, output: 3, cacheCreation: 0, cacheRead: 0 },
+    });
+  });
+
+  it("replaces a message's usage when its records span an append, without mutating the cached entry", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, toJsonl([
+      usageRecord("msg_1", "opus", { input_tokens: 10, output_tokens: 1 }),
+    ]));
+    setMtime(f, 1_000_000);
+    const cache = new MetadataCache();
+    const first = readFileMetadata(f, cache)!;
+
+    fs.appendFileSync(f, toJsonl([
+      usageRecord("msg_1", "opus", { input_tokens: 10, output_tokens: 40 }),
+    ]));
+    setMtime(f, 1_000_010);
+
+    expect(readFileMetadata(f, cache)?.usage.opus).toMatchObject({ input: 10, output: 40 });
+    expect(first.usage.opus).toMatchObject({ input: 10, output: 1 });
+  });
+});
+
+describe("readFileMetadata: usage buckets", () => {
+  it("buckets usage by local day, model and branch, replacing repeated message records", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    const t1 = "2026-02-19T12:00:00Z";
+    const t2 = "2026-02-21T12:00:00Z";
+    const record = (id: string, ts: string, branch: string | undefined, output: number) => ({
+      ...usageRecord(id, "opus", { input_tokens: 1, output_tokens: output }),
+      timestamp: ts,
+      ...(branch ? { gitBranch: branch } : {}),
+    });
+    fs.writeFileSync(f, toJsonl([
+      record("msg_1", t1, "main", 1),
+      record("msg_1", t1, "main", 10),
+      record("msg_2", t2, "feature", 5),
+      record("msg_3", t2, undefined, 2),
+      usageRecord("msg_4", "opus", { input_tokens: 100 }), // no timestamp → totals only
+    ]));
+
+    const meta = readFileMetadata(f)!;
+    const key = (ts: string, branch: string) =>
+      usageBucketKey({ day: localDay(new Date(ts)), model: "opus", gitBranch: branch });
+    expect(meta.usageBuckets).toEqual({
+      [key(t1, "main")]: { input: 1, output: 10, cacheCreation: 0, cacheRead: 0 },
+      [key(t2, "feature")]: { input: 1, output: 5, cacheCreation: 0, cacheRead: 0 },
+      [key(t2, "")]: { input: 1, output: 2, cacheCreation: 0, cacheRead: 0 },
+    });
+    expect(meta.usage.opus.input).toBe(103);
+  });
+});
+
+describe("MetadataCache: persistence", () => {
+  it("entries survive a save/load round trip", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    const cacheFile = path.join(dir, "storage", "metadata-cache.json");
+    fs.writeFileSync(f, toJsonl([userMsg("hello")]));
+
+    const cache = new MetadataCache(cacheFile);
+    const first = readFileMetadata(f, cache);
+    cache.save();
+
+    const reloaded = new MetadataCache(cacheFile);
+    expect(reloaded.get(f)).toEqual(first);
+  });
+
+  it("entries from another cache version are discarded", () => {
+    const dir = createTempDir();
+    const cacheFile = path.join(dir, "metadata-cache.json");
+    fs.writeFileSync(cacheFile, JSON.stringify({
+      version: -1,
+      entries: { "/x.jsonl": { offset: 0 } },
+    }));
+
+    expect(new MetadataCache(cacheFile).get("/x.jsonl")).toBeUndefined();
+  });
+
+  it("corrupted cache file → starts empty", () => {
+    const dir = createTempDir();
+    const cacheFile = path.join(dir, "metadata-cache.json");
+    fs.writeFileSync(cacheFile, "{not json");
+
+    expect(new MetadataCache(cacheFile).get("/x.jsonl")).toBeUndefined();
+  });
+});
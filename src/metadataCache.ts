@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as path from "path";
+import { FileScanState, TailMetadata } from "./conversationParser";
+
+/**
+ * Bump when the shape of CachedFileMeta or the scan logic changes,
+ * so stale entries from an older version are discarded instead of reused.
+ */
+const CACHE_VERSION = 8;
+
+/**
+ * Per-file scan result plus the stat fields used to decide whether
+ * the file is unchanged, appended to, or must be rescanned.
+ */
+export interface CachedFileMeta extends FileScanState {
+  ino: number;
+  size: number;
+  mtimeMs: number;
+  tail: TailMetadata;
+  tailConfig: string; // tailConfigKey() of the settings the tail was read with
+}
+
+interface CacheData {
+  version: number;
+  entries: Record<string, CachedFileMeta>;
+}
+
+/**
+ * Metadata cache keyed by JSONL file path, persisted as a JSON file
+ * (the extension's global storage) so restarts don't rescan every session.
+ * Without a cache file it works purely in memory.
+ */
+export class MetadataCache {
+  private entries = new Map<string, CachedFileMeta>();
+  private dirty = false;
+
+  constructor(private readonly cacheFile?: string) {
+    this.load();
+  }
+
+  get(filePath: string): CachedFileMeta | undefined {
+    return this.entries.get(filePath);
+  }
+
+  set(filePath: string, entry: CachedFileMeta): void {
+    this.entries.set(filePath, entry);
+    this.dirty = true;
+  }
+
+  /**
+   * Drop entries for files directly inside `dirPath` that no longer exist
+   * (deleted or renamed away).
+   */
+  prune(dirPath: string, existing: Set<string>): void {
+    for (const filePath of this.entries.keys()) {
+      if (path.dirname(filePath) === dirPath && !existing.has(filePath)) {
+        this.entries.delete(filePath);
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Write the cache to disk if anything changed since the last save.
+   */
+  save(): void {
+    if (!this.cacheFile || !this.dirty) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      const data: CacheData = {
+        version: CACHE_VERSION,
+        entries: Object.fromEntries(this.entries),
+      };
+      fs.writeFileSync(this.cacheFile, JSON.stringify(data), "utf8");
+      this.dirty = false;
+    } catch {
+      // storage not writable — keep working from memory
+    }
+  }
+
+  private load(): void {
+    if (!this.cacheFile) {
+      return;
+    }
+    try {
+      const data: CacheData = JSON.parse(fs.readFileSync(this.cacheFile, "utf8"));
+      if (data.version === CACHE_VERSION && data.entries) {
+        this.entries = new Map(Object.entries(data.entries));
+      }
+    } catch {
+      // missing or corrupted file, start empty
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import * as vscode from "vscode";
+import { ConversationMeta } from "./types";
+import { TransitionTracker, Transition } from "./stateTransitions";
+import { getNotificationSettings } from "./config";
+
+/**
+ * Shows a notification when a session starts waiting for permission,
+ * finishes or stops with an error, so the user notices even when the panel
+ * is hidden.
+ */
+export class SessionNotifier {
+  private tracker = new TransitionTracker();
+
+  check(conversations: ConversationMeta[]): void {
+    const settings = getNotificationSettings();
+    for (const transition of this.tracker.update(conversations)) {
+      if (transition.kind === "permission" && settings.onPermission) {
+        void this.show(transition, `"${transition.meta.title}" is waiting for permission`);
+      } else if (transition.kind === "finished" && settings.onFinished) {
+        void this.show(transition, `"${transition.meta.title}" finished`);
+      } else if (transition.kind === "errored" && settings.onFinished) {
+        void this.show(transition, `"${transition.meta.title}" stopped: ${transition.meta.stateReason}`);
+      }
+    }
+  }
+
+  private async show(transition: Transition, message: string): Promise<void> {
+    const show =
+      transition.kind === "finished"
+        ? vscode.window.showInformationMessage
+        : vscode.window.showWarningMessage;
+    const action = await show(message, "Open");
+    if (action === "Open") {
+      await vscode.commands.executeCommand("claudeConversations.open", transition.meta);
+    }
+  }
+}
@@ -1,21 +1,39 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { getClaudeDataDirs } from "./dataDirs";
 
-const PIN_FILE = path.join(
-  os.homedir(),
-  ".claude",
-  "conversation-pins.json"
-);
+const PIN_FILE_NAME = "conversation-pins.json";
+
+/**
+ * Where pins were kept before the data directory was configurable.
+ */
+function legacyPinFile(): string {
+  return path.join(os.homedir(), ".claude", PIN_FILE_NAME);
+}
+
+/**
+ * One pin file per data directory. Pins are read from all of them and
+ * added to the first (primary) one. The legacy file is read too while it
+ * exists, so pins saved there survive pointing the extension elsewhere.
+ */
+function pinFiles(): string[] {
+  const files = getClaudeDataDirs().map((d) => path.join(d.path, PIN_FILE_NAME));
+  const legacy = legacyPinFile();
+  if (!files.includes(legacy) && fs.existsSync(legacy)) {
+    files.push(legacy);
+  }
+  return files;
+}
 
 interface PinData {
   pinnedSessionIds: string[];
 }
 
-function readPinData(): PinData {
+function readPinData(pinFile: string): PinData {
   try {
-    if (fs.existsSync(PIN_FILE)) {
-      const raw = fs.readFileSync(PIN_FILE, "utf8");
+    if (fs.existsSync(pinFile)) {
+      const raw = fs.readFileSync(pinFile, "utf8");
       return JSON.parse(raw);
     }
   } catch {
@@ -24,30 +42,36 @@ function readPinData(): PinData {
   return { pinnedSessionIds: [] };
 }
 
-function writePinData(data: PinData): void {
-  const dir = path.dirname(PIN_FILE);
+function writePinData(pinFile: string, data: PinData): void {
+  const dir = path.dirname(pinFile);
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
-  fs.writeFileSync(PIN_FILE, JSON.stringify(data, null, 2), "utf8");
+  fs.writeFileSync(pinFile, JSON.stringify(data, null, 2), "utf8");
 }
 
 export function getPinnedSessionIds(): Set<string> {
-  return new Set(readPinData().pinnedSessionIds);
+  return new Set(pinFiles().flatMap((f) => readPinData(f).pinnedSessionIds));
 }
 
 export function pinSession(sessionId: string): void {
-  const data = readPinData();
-  if (!data.pinnedSessionIds.includes(sessionId)) {
-    data.pinnedSessionIds.push(sessionId);
-    writePinData(data);
+  if (getPinnedSessionIds().has(sessionId)) {
+    return;
   }
+  const primary = pinFiles()[0];
+  const data = readPinData(primary);
+  data.pinnedSessionIds.push(sessionId);
+  writePinData(primary, data);
 }
 
 export function unpinSession(sessionId: string): void {
-  const data = readPinData();
-  data.pinnedSessionIds = data.pinnedSessionIds.filter((id) => id !== sessionId);
-  writePinData(data);
+  for (const pinFile of pinFiles()) {
+    const data = readPinData(pinFile);
+    if (data.pinnedSessionIds.includes(sessionId)) {
+      data.pinnedSessionIds = data.pinnedSessionIds.filter((id) => id !== sessionId);
+      writePinData(pinFile, data);
+    }
+  }
 }
 
 export function isPinned(sessionId: string): boolean {
@@ -0,0 +1,225 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  encodeProjectPath,
+  samePath,
+  readSessionCwd,
+  ProjectPathResolver,
+  groupByProject,
+} from "./projectPaths";
+import { ConversationMeta, SessionState } from "./types";
+
+// --- helpers ---
+
+const tmpDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "projectPaths-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function toJsonl(lines: unknown[]): string {
+  return lines.map((l) => JSON.stringify(l)).join("\n") + "\n";
+}
+
+function session(cwd?: string) {
+  return toJsonl([
+    { type: "file-history-snapshot" },
+    { type: "user", sessionId: "s", ...(cwd ? { cwd } : {}), message: { role: "user", content: "hi" } },
+  ]);
+}
+
+/**
+ * Create a project directory the way Claude Code would for `cwd` and
+ * return its path.
+ */
+function addProject(projectsDir: string, cwd: string, opts: { recordCwd?: boolean; name?: string } = {}): string {
+  const name = opts.name ?? encodeProjectPath(cwd);
+  fs.mkdirSync(path.join(projectsDir, name), { recursive: true });
+  fs.writeFileSync(
+    path.join(projectsDir, name, "s.jsonl"),
+    session(opts.recordCwd === false ? undefined : cwd)
+  );
+  return path.join(projectsDir, name);
+}
+
+function conversation(projectPath: string, state: SessionState = "completed"): ConversationMeta {
+  return {
+    sessionId: Math.random().toString(36).slice(2),
+    title: "t",
+    timestamp: new Date(),
+    filePath: "/tmp/x.jsonl",
+    messageCount: 0,
+    toolCallCount: 0,
+    subAgentCount: 0,
+    usageByModel: {},
+    usageBuckets: {},
+    projectPath,
+    projectDir: encodeProjectPath(projectPath),
+    isPinned: false,
+    state,
+    stateReason: "",
+    isWaiting: state === "streaming" || state === "runningTool",
+    isToolUseWaiting: state === "awaitingPermission",
+  };
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("encodeProjectPath", () => {
+  it("replaces every non-alphanumeric character with a dash", () => {
+    expect(encodeProjectPath("/Users/me/my-repo")).toBe("-Users-me-my-repo");
+    expect(encodeProjectPath("/Users/me.name/my_repo")).toBe("-Users-me-name-my-repo");
+    expect(encodeProjectPath("/home/me/My Project")).toBe("-home-me-My-Project");
+    expect(encodeProjectPath("/home/me/プロジェクト")).toBe("-home-me-------");
+    expect(encodeProjectPath("C:\\Users\\me\\repo")).toBe("C--Users-me-repo");
+  });
+});
+
+describe("samePath", () => {
+  it("ignores trailing and duplicate separators", () => {
+    expect(samePath("/a/b/", "/a//b", "linux")).toBe(true);
+    expect(samePath("/a/b", "/a/c", "linux")).toBe(false);
+  });
+
+  it("is case-insensitive on macOS and Windows only", () => {
+    expect(samePath("/Users/Me/Repo", "/users/me/repo", "darwin")).toBe(true);
+    expect(samePath("C:\\Users\\me", "c:/users/ME", "win32")).toBe(true);
+    expect(samePath("/home/Me", "/home/me", "linux")).toBe(false);
+  });
+
+  it("treats composed and decomposed Unicode as equal", () => {
+    expect(samePath("/home/caf\u00e9", "/home/cafe\u0301", "linux")).toBe(true);
+  });
+});
+
+describe("readSessionCwd", () => {
+  it("returns the first recorded cwd", () => {
+    const f = path.join(createTempDir(), "a.jsonl");
+    fs.writeFileSync(f, session("/home/me/my_repo"));
+    expect(readSessionCwd(f)).toBe("/home/me/my_repo");
+  });
+
+  it("returns undefined when no record has a cwd or the file is missing", () => {
+    const dir = createTempDir();
+    const f = path.join(dir, "a.jsonl");
+    fs.writeFileSync(f, session());
+    expect(readSessionCwd(f)).toBeUndefined();
+    expect(readSessionCwd(path.join(dir, "missing.jsonl"))).toBeUndefined();
+  });
+});
+
+describe("ProjectPathResolver: round trip", () => {
+  const tricky = [
+    "/Users/me/my-repo",
+    "/Users/me.name/my_repo",
+    "/home/me/My Project (old)",
+    "/home/me/プロジェクト/app",
+    "/srv/repo.git/work-tree",
+  ];
+
+  it.each(tricky)("resolves and finds %s from its recorded cwd", (cwd) => {
+    const projectsDir = createTempDir();
+    const dir = addProject(projectsDir, cwd);
+    const resolver = new ProjectPathResolver(() => [projectsDir]);
+
+    expect(resolver.resolve(dir)).toBe(cwd);
+    expect(resolver.findProjectDirs(cwd)).toEqual([dir]);
+  });
+
+  it("splits a directory shared by paths that encode to the same name by each session's cwd", () => {
+    const projectsDir = createTempDir();
+    // Both encode to -a-my-repo, so Claude Code stores their sessions together
+    const dir = addProject(projectsDir, "/a/my_repo");
+    fs.writeFileSync(path.join(dir, "t.jsonl"), session("/a/my-repo"));
+    const resolver = new ProjectPathResolver(() => [projectsDir]);
+    const underscore = path.join(dir, "s.jsonl");
+    const dash = path.join(dir, "t.jsonl");
+
+    expect(resolver.findProjectDirs("/a/my_repo")).toEqual([dir]);
+    expect(resolver.findProjectDirs("/a/my-repo")).toEqual([dir]);
+    expect(resolver.findProjectDirs("/a/my/repo")).toEqual([]);
+    expect(resolver.isSessionOf(underscore, "/a/my_repo")).toBe(true);
+    expect(resolver.isSessionOf(dash, "/a/my_repo")).toBe(false);
+    expect(resolver.isSessionOf(underscore, "/a/my-repo")).toBe(false);
+    expect(resolver.isSessionOf(dash, "/a/my-repo")).toBe(true);
+    expect(resolver.sessionCwd(dash)).toBe("/a/my-repo");
+  });
+
+  it("falls back to the encoded name when no session recorded a cwd", () => {
+    const projectsDir = createTempDir();
+    const dir = addProject(projectsDir, "/a/my_repo", { recordCwd: false });
+    const resolver = new ProjectPathResolver(() => [projectsDir]);
+
+    expect(resolver.findProjectDirs("/a/my_repo")).toEqual([dir]);
+    expect(resolver.isSessionOf(path.join(dir, "s.jsonl"), "/a/my_repo")).toBe(true);
+    expect(resolver.resolve(dir)).toBe("/a/my/repo"); // lossy decode
+  });
+
+  it("matches directories named with the older /-and-.-only encoding", () => {
+    const projectsDir = createTempDir();
+    const dir = addProject(projectsDir, "/a/my_repo", { name: "-a-my_repo" });
+    expect(new ProjectPathResolver(() => [projectsDir]).findProjectDirs("/a/my_repo")).toEqual([dir]);
+  });
+
+  it("matches truncated names of very long paths by their recorded cwd", () => {
+    const projectsDir = createTempDir();
+    const cwd = "/home/me/" + "deeply-nested/".repeat(20) + "repo";
+    const dir = addProject(projectsDir, cwd, {
+      name: encodeProjectPath(cwd).slice(0, 200) + "-1a2b3c",
+    });
+    const resolver = new ProjectPathResolver(() => [projectsDir]);
+
+    expect(resolver.findProjectDirs(cwd)).toEqual([dir]);
+    expect(resolver.findProjectDirs(cwd.replace("repo", "other"))).toEqual([]);
+  });
+
+  it("finds matching directories in every projects directory", () => {
+    const root = createTempDir();
+    const personal = addProject(path.join(root, "personal"), "/a/repo");
+    const work = addProject(path.join(root, "work"), "/a/repo");
+    const resolver = new ProjectPathResolver(() => [path.join(root, "personal"), path.join(root, "work")]);
+
+    expect(resolver.findProjectDirs("/a/repo")).toEqual([personal, work]);
+  });
+
+  it("matches a workspace opened through a symlink", () => {
+    const root = createTempDir();
+    const real = fs.realpathSync(root);
+    const target = path.join(real, "real-repo");
+    fs.mkdirSync(target);
+    const link = path.join(real, "link");
+    fs.symlinkSync(target, link);
+    const projectsDir = path.join(real, "projects");
+    const dir = addProject(projectsDir, target);
+
+    expect(new ProjectPathResolver(() => [projectsDir]).findProjectDirs(link)).toEqual([dir]);
+  });
+});
+
+describe("groupByProject", () => {
+  it("groups by project path in input order with waiting counts", () => {
+    const a1 = conversation("/home/me/work/api", "streaming");
+    const b1 = conversation("/home/me/other/api");
+    const a2 = conversation("/home/me/work/api", "awaitingPermission");
+    const a3 = conversation("/home/me/work/api");
+
+    const groups = groupByProject([a1, b1, a2, a3]);
+    expect(groups.map((g) => g.label)).toEqual(["work/api", "other/api"]);
+    expect(groups[0]).toMatchObject({
+      projectPath: "/home/me/work/api",
+      conversations: [a1, a2, a3],
+      waitingCount: 1,
+      permissionCount: 1,
+    });
+    expect(groups[1]).toMatchObject({ conversations: [b1], waitingCount: 0, permissionCount: 0 });
+  });
+});
@@ -0,0 +1,252 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ConversationMeta } from "./types";
+import { sessionActivity } from "./stateTransitions";
+import { decodeProjectDir, getProjectDisplayName } from "./conversationParser";
+
+const HEAD_BYTES = 64 * 1024;
+// Longer encoded names are truncated and suffixed with a hash by Claude Code
+const MAX_ENCODED_LENGTH = 200;
+
+/**
+ * Encode a path the way Claude Code names its project directories:
+ * every character other than an ASCII letter or digit becomes "-".
+ * Lossy — "/a/my-repo", "/a/my_repo" and "/a/my/repo" share one name —
+ * so it is only used when no recorded `cwd` is available.
+ */
+export function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+/**
+ * Compare two absolute paths, ignoring trailing separators, and case on
+ * platforms whose default file systems are case-insensitive.
+ */
+export function samePath(a: string, b: string, platform: NodeJS.Platform = process.platform): boolean {
+  const normalize = (p: string) => {
+    let n = p.replace(/\\/g, "/").replace(/\/+/g, "/");
+    if (n.length > 1 && n.endsWith("/")) {
+      n = n.slice(0, -1);
+    }
+    n = n.normalize("NFC");
+    return platform === "win32" || platform === "darwin" ? n.toLowerCase() : n;
+  };
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * The `cwd` recorded in the first records of a session file, if any.
+ */
+export function readSessionCwd(filePath: string): string | undefined {
+  let head: string;
+  try {
+    const fd = fs.openSync(filePath, "r");
+    try {
+      const buf = Buffer.alloc(HEAD_BYTES);
+      const bytesRead = fs.readSync(fd, buf, 0, HEAD_BYTES, 0);
+      head = buf.toString("utf8", 0, bytesRead);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+  // The last line may be cut off mid-record; JSON.parse rejects it
+  for (const line of head.split("\n")) {
+    try {
+      const obj = JSON.parse(line);
+      if (typeof obj.cwd === "string" && obj.cwd) {
+        return obj.cwd;
+      }
+    } catch {
+      // Partial or invalid line
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The paths a workspace folder can appear under in recorded cwds: as given,
+ * and resolved through symlinks.
+ */
+function workspaceCandidates(workspacePath: string): string[] {
+  const candidates = [workspacePath];
+  try {
+    const real = fs.realpathSync(workspacePath);
+    if (real !== workspacePath) {
+      candidates.push(real); // e.g. /tmp → /private/tmp on macOS
+    }
+  } catch {
+    // Workspace folder no longer exists — match by the given path only
+  }
+  return candidates;
+}
+
+/**
+ * Maps Claude project directories to the real paths they were created
+ * for, using the `cwd` recorded in their session files. Project
+ * directories are absolute paths, since several data directories can
+ * hold a directory of the same name. Paths that encode to the same name
+ * share a directory, so each session is attributed by its own cwd.
+ */
+export class ProjectPathResolver {
+  // project dir path → real path (only directories where a cwd was found)
+  private paths = new Map<string, string>();
+  // session file path → recorded cwd (only files where one was found)
+  private sessionCwds = new Map<string, string>();
+
+  constructor(private readonly getProjectsDirs: () => string[]) {}
+
+  /**
+   * The cwd recorded by a session file, read once per file.
+   */
+  sessionCwd(filePath: string): string | undefined {
+    const known = this.sessionCwds.get(filePath);
+    if (known) {
+      return known;
+    }
+    const cwd = readSessionCwd(filePath);
+    if (cwd) {
+      this.sessionCwds.set(filePath, cwd);
+    }
+    return cwd;
+  }
+
+  /**
+   * Session files of a project directory, newest first.
+   */
+  private sessionFiles(dirPath: string): string[] {
+    try {
+      return fs
+        .readdirSync(dirPath)
+        .filter((f) => f.endsWith(".jsonl"))
+        .map((f) => {
+          const file = path.join(dirPath, f);
+          return { file, mtime: fs.statSync(file).mtimeMs };
+        })
+        .sort((a, b) => b.mtime - a.mtime)
+        .map(({ file }) => file);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * The recorded cwd of a project directory, checking its newest sessions first.
+   */
+  private lookup(dirPath: string): string | undefined {
+    const known = this.paths.get(dirPath);
+    if (known) {
+      return known;
+    }
+    for (const file of this.sessionFiles(dirPath)) {
+      const cwd = this.sessionCwd(file);
+      if (cwd) {
+        this.paths.set(dirPath, cwd);
+        return cwd;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Real path of a project directory; falls back to decoding its name.
+   */
+  resolve(dirPath: string): string {
+    return this.lookup(dirPath) ?? decodeProjectDir(path.basename(dirPath));
+  }
+
+  /**
+   * Project directories (absolute paths, across all projects directories)
+   * holding sessions that ran in `workspacePath`. Names are matched first
+   * (cheap); a directory whose sessions recorded cwds must then hold at
+   * least one session with a matching cwd. Use `isSessionOf` to pick that
+   * workspace's sessions from a directory other paths share.
+   */
+  findProjectDirs(workspacePath: string): string[] {
+    const candidates = workspaceCandidates(workspacePath);
+    const encoded = candidates.flatMap((c) => [
+      encodeProjectPath(c),
+      c.replace(/[/.]/g, "-"), // the looser encoding this extension used to assume
+    ]);
+    const nameMatches = (dir: string) =>
+      encoded.some((e) =>
+        e.length > MAX_ENCODED_LENGTH
+          ? dir.startsWith(e.slice(0, MAX_ENCODED_LENGTH))
+          : dir === e
+      );
+
+    const matches: string[] = [];
+    for (const projectsDir of this.getProjectsDirs()) {
+      let names: string[];
+      try {
+        names = fs
+          .readdirSync(projectsDir, { withFileTypes: true })
+          .filter((d) => d.isDirectory() && nameMatches(d.name))
+          .map((d) => d.name);
+      } catch {
+        continue;
+      }
+      for (const name of names) {
+        const dirPath = path.join(projectsDir, name);
+        const cwds = this.sessionFiles(dirPath)
+          .map((file) => this.sessionCwd(file))
+          .filter((cwd): cwd is string => cwd !== undefined);
+        if (cwds.length === 0 || cwds.some((cwd) => candidates.some((c) => samePath(cwd, c)))) {
+          matches.push(dirPath);
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Whether a session file ran in `workspacePath`. Sessions without a
+   * recorded cwd belong to every workspace their directory name matches.
+   */
+  isSessionOf(filePath: string, workspacePath: string): boolean {
+    const cwd = this.sessionCwd(filePath);
+    return !cwd || workspaceCandidates(workspacePath).some((c) => samePath(cwd, c));
+  }
+}
+
+export interface ProjectGroup {
+  projectPath: string;
+  label: string;
+  conversations: ConversationMeta[];
+  waitingCount: number; // waiting for Claude's response
+  permissionCount: number; // waiting for tool permission
+}
+
+export function makeProjectGroup(
+  projectPath: string,
+  label: string,
+  conversations: ConversationMeta[]
+): ProjectGroup {
+  return {
+    projectPath,
+    label,
+    conversations,
+    waitingCount: conversations.filter((c) => sessionActivity(c) === "working").length,
+    permissionCount: conversations.filter((c) => sessionActivity(c) === "permission").length,
+  };
+}
+
+/**
+ * Group conversations by project, keeping the input order (newest first)
+ * both across and within groups.
+ */
+export function groupByProject(conversations: ConversationMeta[]): ProjectGroup[] {
+  const byPath = new Map<string, ConversationMeta[]>();
+  for (const c of conversations) {
+    const list = byPath.get(c.projectPath);
+    if (list) {
+      list.push(c);
+    } else {
+      byPath.set(c.projectPath, [c]);
+    }
+  }
+  return Array.from(byPath, ([projectPath, list]) =>
+    makeProjectGroup(projectPath, getProjectDisplayName(projectPath) || list[0].projectDir, list)
+  );
+}
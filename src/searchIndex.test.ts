@@ -0,0 +1,229 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { SearchIndex, tokenize, extractSearchText, readSnippet } from "./searchIndex";
+import { JnsonlMessage } from "./types";
+
+// --- helpers ---
+
+const tmpDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "searchIndex-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function toJsonl(lines: unknown[]): string {
+  return lines.map((l) => JSON.stringify(l)).join("\n") + "\n";
+}
+
+function userMsg(content: string | unknown[], opts: { isMeta?: boolean } = {}) {
+  return {
+    type: "user",
+    sessionId: "sess-1",
+    ...(opts.isMeta ? { isMeta: true } : {}),
+    message: { role: "user", content },
+  };
+}
+
+function assistantMsg(content: unknown[]) {
+  return {
+    type: "assistant",
+    sessionId: "sess-1",
+    message: { role: "assistant", content },
+  };
+}
+
+function setMtime(filePath: string, seconds: number): void {
+  fs.utimesSync(filePath, seconds, seconds);
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("tokenize", () => {
+  it("lowercases and splits on non-word characters", () => {
+    expect(tokenize("Run the Migration-script, please!")).toEqual([
+      "run", "the", "migration", "script", "please",
+    ]);
+  });
+
+  it("splits CJK runs into bigrams", () => {
+    expect(tokenize("移行スクリプト")).toEqual([
+      "移行", "行ス", "スク", "クリ", "リプ", "プト",
+    ]);
+  });
+
+  it("keeps a single CJK character as one token", () => {
+    expect(tokenize("字")).toEqual(["字"]);
+  });
+});
+
+describe("extractSearchText", () => {
+  it("includes prompts, assistant text and tool inputs", () => {
+    const texts = extractSearchText(assistantMsg([
+      { type: "text", text: "Running it now" },
+      { type: "tool_use", name: "Bash", input: { command: "npm run migrate", description: "apply" } },
+    ]) as JnsonlMessage);
+    expect(texts).toEqual(["Running it now", "Bash", "npm run migrate", "apply"]);
+  });
+
+  it("skips tool results, meta and system-generated messages", () => {
+    expect(extractSearchText(userMsg([{ type: "tool_result", content: "secret" }]) as JnsonlMessage)).toEqual([]);
+    expect(extractSearchText(userMsg("meta", { isMeta: true }) as JnsonlMessage)).toEqual([]);
+    expect(extractSearchText(userMsg("<command-name>/clear</command-name>") as JnsonlMessage)).toEqual([]);
+    expect(extractSearchText({ type: "file-history-snapshot" } as JnsonlMessage)).toEqual([]);
+  });
+});
+
+describe("SearchIndex", () => {
+  it("finds files containing every query term", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    const b = path.join(dir, "b.jsonl");
+    fs.writeFileSync(a, toJsonl([userMsg("let's write the migration script")]));
+    fs.writeFileSync(b, toJsonl([userMsg("review the migration plan")]));
+    const index = new SearchIndex();
+    index.update([a, b]);
+
+    expect(index.search("migration").map((h) => h.filePath).sort()).toEqual([a, b]);
+    expect(index.search("migration script").map((h) => h.filePath)).toEqual([a]);
+    expect(index.search("deployment")).toEqual([]);
+    expect(index.search("   ")).toEqual([]);
+  });
+
+  it("matches the last term as a prefix", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    fs.writeFileSync(a, toJsonl([userMsg("the migration script")]));
+    const index = new SearchIndex();
+    index.update([a]);
+
+    expect(index.search("migra")).toHaveLength(1);
+    expect(index.search("migra script")).toEqual([]);
+  });
+
+  it("ranks files by number of matching lines and points at the best line", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    const b = path.join(dir, "b.jsonl");
+    const first = toJsonl([userMsg("deploy once")]);
+    fs.writeFileSync(a, first + toJsonl([
+      assistantMsg([{ type: "text", text: "deploy the staging stack" }]),
+    ]));
+    fs.writeFileSync(b, toJsonl([
+      userMsg("deploy"),
+      userMsg("deploy again"),
+      userMsg("deploy a third time"),
+    ]));
+    const index = new SearchIndex();
+    index.update([a, b]);
+
+    const hits = index.search("deploy staging");
+    expect(hits).toEqual([
+      { filePath: a, score: 3, lineOffset: Buffer.byteLength(first) },
+    ]);
+    expect(index.search("deploy").map((h) => h.filePath)).toEqual([b, a]);
+  });
+
+  it("indexes appended data incrementally", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    fs.writeFileSync(a, toJsonl([userMsg("first topic")]));
+    setMtime(a, 1_000_000);
+    const index = new SearchIndex();
+    index.update([a]);
+    expect(index.search("second")).toEqual([]);
+
+    fs.appendFileSync(a, toJsonl([userMsg("second topic")]));
+    setMtime(a, 1_000_010);
+    index.update([a]);
+
+    expect(index.search("first")).toHaveLength(1);
+    expect(index.search("second")).toHaveLength(1);
+  });
+
+  it("re-indexes a truncated file from scratch", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    fs.writeFileSync(a, toJsonl([userMsg("old content here")]));
+    setMtime(a, 1_000_000);
+    const index = new SearchIndex();
+    index.update([a]);
+
+    fs.writeFileSync(a, toJsonl([userMsg("new")]));
+    setMtime(a, 1_000_010);
+    index.update([a]);
+
+    expect(index.search("old")).toEqual([]);
+    expect(index.search("new")).toHaveLength(1);
+  });
+
+  it("drops files that are no longer listed", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    fs.writeFileSync(a, toJsonl([userMsg("hello")]));
+    const index = new SearchIndex();
+    index.update([a]);
+    index.update([]);
+
+    expect(index.search("hello")).toEqual([]);
+  });
+
+  it("indexes in the background and coalesces overlapping updates", async () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    const b = path.join(dir, "b.jsonl");
+    fs.writeFileSync(a, toJsonl([userMsg("alpha")]));
+    fs.writeFileSync(b, toJsonl([userMsg("beta")]));
+    const index = new SearchIndex();
+
+    const first = index.updateInBackground([a]);
+    const second = index.updateInBackground([a, b]);
+    expect(second).toBe(first);
+    expect(index.indexing).toBe(true);
+
+    await index.whenIdle();
+    expect(index.indexing).toBe(false);
+    expect(index.search("alpha")).toHaveLength(1);
+    expect(index.search("beta")).toHaveLength(1);
+  });
+});
+
+describe("readSnippet", () => {
+  it("returns an excerpt around the first query word", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    const prefix = "x ".repeat(100);
+    fs.writeFileSync(a, toJsonl([userMsg(`${prefix}the Migration\nscript ${prefix}`)]));
+
+    const snippet = readSnippet(a, 0, "migration");
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("the Migration script");
+  });
+
+  it("reads records longer than one read chunk", () => {
+    const dir = createTempDir();
+    const a = path.join(dir, "a.jsonl");
+    const first = toJsonl([userMsg("short")]);
+    const filler = "lorem ipsum ".repeat(10_000); // ~120 KB
+    fs.writeFileSync(a, first + toJsonl([userMsg(`${filler} needle ${filler}`), userMsg("after")]));
+
+    const index = new SearchIndex();
+    index.update([a]);
+    const [hit] = index.search("needle");
+    expect(hit.lineOffset).toBe(Buffer.byteLength(first));
+    expect(readSnippet(a, hit.lineOffset, "needle")).toContain("needle");
+  });
+
+  it("returns an empty string for an unreadable file", () => {
+    expect(readSnippet("/tmp/nonexistent-file-abc123.jsonl", 0, "x")).toBe("");
+  });
+});
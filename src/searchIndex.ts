@@ -0,0 +1,395 @@
+import * as fs from "fs";
+import { JnsonlMessage } from "./types";
+import { readLinesFrom } from "./conversationParser";
+import { collapseWhitespace } from "./tabTitleUtils";
+
+const MAX_POSTINGS_PER_FILE = 50; // line offsets kept per token per file (enough for snippets)
+const SNIPPET_READ_CHUNK = 64 * 1024;
+const SNIPPET_CONTEXT = 60;
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/**
+ * Split text into lowercase search tokens.
+ * CJK runs have no word boundaries, so they are indexed as character bigrams.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    if (!CJK_PATTERN.test(word)) {
+      tokens.push(word);
+      continue;
+    }
+    const chars = Array.from(word);
+    if (chars.length === 1) {
+      tokens.push(word);
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return tokens;
+}
+
+function stringValues(value: unknown, out: string[]): void {
+  if (typeof value === "string") {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const v of value) {
+      stringValues(v, out);
+    }
+  } else if (value && typeof value === "object") {
+    for (const v of Object.values(value)) {
+      stringValues(v, out);
+    }
+  }
+}
+
+/**
+ * Searchable text of a record: user prompts, assistant text and tool inputs.
+ * Tool results, meta and system-generated messages are not indexed.
+ */
+export function extractSearchText(obj: JnsonlMessage): string[] {
+  if ((obj.type !== "user" && obj.type !== "assistant") || obj.isMeta) {
+    return [];
+  }
+  const content = obj.message?.content;
+  if (typeof content === "string") {
+    return content.startsWith("<") ? [] : [content];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  const texts: string[] = [];
+  for (const block of content) {
+    if (block.type === "text" && block.text && !block.text.startsWith("<")) {
+      texts.push(block.text);
+    } else if (block.type === "tool_use" && obj.type === "assistant") {
+      if (block.name) {
+        texts.push(block.name);
+      }
+      stringValues(block.input, texts);
+    }
+  }
+  return texts;
+}
+
+interface IndexedFile {
+  ino: number;
+  size: number;
+  mtimeMs: number;
+  offset: number;
+  tokens: Set<string>;
+}
+
+export interface SearchHit {
+  filePath: string;
+  score: number;
+  lineOffset: number; // start of the line that best matches the query
+}
+
+/**
+ * In-memory inverted index over conversation JSONL files.
+ * Postings record the byte offset of each matching line, so snippets are
+ * read back from the file on demand instead of keeping all text in memory.
+ * Files are re-indexed incrementally with the same append detection as
+ * the metadata cache.
+ */
+export class SearchIndex {
+  // token → filePath → line offsets
+  private postings = new Map<string, Map<string, number[]>>();
+  private files = new Map<string, IndexedFile>();
+  private running: Promise<void> | undefined; // background update in progress
+  private queued: string[] | undefined; // file list for the next background pass
+
+  /**
+   * Bring the index in line with the given files: index new and appended
+   * data, re-index rewritten files and drop files not in the list.
+   */
+  update(filePaths: string[]): void {
+    this.removeOthers(filePaths);
+    for (const filePath of filePaths) {
+      this.updateFile(filePath);
+    }
+  }
+
+  /**
+   * Like `update`, but yields to the event loop after each file so a large
+   * history is indexed without blocking. Calls made while an update runs are
+   * coalesced into one more pass over the latest file list.
+   */
+  updateInBackground(filePaths: string[]): Promise<void> {
+    this.queued = filePaths;
+    return (this.running ??= this.drain());
+  }
+
+  /** Whether a background update is in progress. */
+  get indexing(): boolean {
+    return this.running !== undefined;
+  }
+
+  /**
+   * Resolves once no background update is in progress.
+   */
+  whenIdle(): Promise<void> {
+    return this.running ?? Promise.resolve();
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      while (this.queued) {
+        const filePaths = this.queued;
+        this.queued = undefined;
+        this.removeOthers(filePaths);
+        for (const filePath of filePaths) {
+          this.updateFile(filePath);
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      }
+    } finally {
+      this.running = undefined;
+    }
+  }
+
+  private removeOthers(filePaths: string[]): void {
+    const current = new Set(filePaths);
+    for (const filePath of this.files.keys()) {
+      if (!current.has(filePath)) {
+        this.removeFile(filePath);
+      }
+    }
+  }
+
+  updateFile(filePath: string): void {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      this.removeFile(filePath);
+      return;
+    }
+
+    let indexed = this.files.get(filePath);
+    if (
+      indexed &&
+      indexed.ino === stat.ino &&
+      indexed.size === stat.size &&
+      indexed.mtimeMs === stat.mtimeMs
+    ) {
+      return;
+    }
+    const appended =
+      indexed !== undefined &&
+      indexed.ino === stat.ino &&
+      stat.size > indexed.size;
+    if (!appended) {
+      this.removeFile(filePath);
+      indexed = { ino: stat.ino, size: 0, mtimeMs: 0, offset: 0, tokens: new Set() };
+    }
+    const entry = indexed!;
+
+    try {
+      entry.offset = readLinesFrom(filePath, entry.offset, (line, lineOffset) => {
+        this.indexLine(filePath, entry, line, lineOffset);
+      });
+    } catch {
+      this.removeFile(filePath);
+      return;
+    }
+    entry.ino = stat.ino;
+    entry.size = stat.size;
+    entry.mtimeMs = stat.mtimeMs;
+    this.files.set(filePath, entry);
+  }
+
+  removeFile(filePath: string): void {
+    const indexed = this.files.get(filePath);
+    if (!indexed) {
+      return;
+    }
+    for (const token of indexed.tokens) {
+      const byFile = this.postings.get(token);
+      byFile?.delete(filePath);
+      if (byFile?.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+    this.files.delete(filePath);
+  }
+
+  private indexLine(
+    filePath: string,
+    indexed: IndexedFile,
+    line: string,
+    lineOffset: number
+  ): void {
+    let obj: JnsonlMessage;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    const tokens = new Set<string>();
+    for (const text of extractSearchText(obj)) {
+      for (const token of tokenize(text)) {
+        tokens.add(token);
+      }
+    }
+
+    for (const token of tokens) {
+      let byFile = this.postings.get(token);
+      if (!byFile) {
+        byFile = new Map();
+        this.postings.set(token, byFile);
+      }
+      let offsets = byFile.get(filePath);
+      if (!offsets) {
+        offsets = [];
+        byFile.set(filePath, offsets);
+      }
+      if (offsets.length < MAX_POSTINGS_PER_FILE) {
+        offsets.push(lineOffset);
+      }
+      indexed.tokens.add(token);
+    }
+  }
+
+  /**
+   * Find files containing every query term. The last term also matches
+   * as a prefix, so results update while the user is still typing.
+   * Files are ranked by the number of matching lines.
+   */
+  search(query: string, limit: number = 50): SearchHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    // term → filePath → matching line offsets
+    const perTerm = terms.map((term, i) => {
+      const isLast = i === terms.length - 1;
+      const matches = new Map<string, Set<number>>();
+      const addPostings = (byFile: Map<string, number[]>) => {
+        for (const [filePath, offsets] of byFile) {
+          let set = matches.get(filePath);
+          if (!set) {
+            set = new Set();
+            matches.set(filePath, set);
+          }
+          for (const o of offsets) {
+            set.add(o);
+          }
+        }
+      };
+      if (isLast) {
+        for (const [token, byFile] of this.postings) {
+          if (token.startsWith(term)) {
+            addPostings(byFile);
+          }
+        }
+      } else {
+        const byFile = this.postings.get(term);
+        if (byFile) {
+          addPostings(byFile);
+        }
+      }
+      return matches;
+    });
+
+    const hits: SearchHit[] = [];
+    for (const filePath of perTerm[0].keys()) {
+      if (!perTerm.every((m) => m.has(filePath))) {
+        continue;
+      }
+
+      // Best line = the one matching the most terms (earliest on ties)
+      const lineHits = new Map<number, number>();
+      let score = 0;
+      for (const m of perTerm) {
+        for (const o of m.get(filePath)!) {
+          lineHits.set(o, (lineHits.get(o) ?? 0) + 1);
+          score++;
+        }
+      }
+      let lineOffset = -1;
+      let best = 0;
+      for (const [o, count] of lineHits) {
+        if (count > best || (count === best && o < lineOffset)) {
+          best = count;
+          lineOffset = o;
+        }
+      }
+      hits.push({ filePath, score, lineOffset });
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+    return hits.slice(0, limit);
+  }
+}
+
+/**
+ * Read the record at `lineOffset` and return a short single-line excerpt
+ * around the first occurrence of any query word.
+ */
+export function readSnippet(
+  filePath: string,
+  lineOffset: number,
+  query: string
+): string {
+  let line: string;
+  try {
+    const fd = fs.openSync(filePath, "r");
+    try {
+      // Records with file contents in tool inputs run to megabytes, so read
+      // up to the end of the line rather than a fixed size
+      const chunks: Buffer[] = [];
+      let position = lineOffset;
+      for (;;) {
+        const buf = Buffer.alloc(SNIPPET_READ_CHUNK);
+        const bytesRead = fs.readSync(fd, buf, 0, buf.length, position);
+        const end = buf.subarray(0, bytesRead).indexOf(0x0a);
+        chunks.push(buf.subarray(0, end === -1 ? bytesRead : end));
+        if (end !== -1 || bytesRead === 0) {
+          break;
+        }
+        position += bytesRead;
+      }
+      line = Buffer.concat(chunks).toString("utf8");
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return "";
+  }
+
+  let text: string;
+  try {
+    text = collapseWhitespace(extractSearchText(JSON.parse(line)).join(" "));
+  } catch {
+    return "";
+  }
+
+  const lower = text.toLowerCase();
+  let pos = -1;
+  for (const word of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const idx = lower.indexOf(word);
+    if (idx !== -1 && (pos === -1 || idx < pos)) {
+      pos = idx;
+    }
+  }
+  if (pos === -1) {
+    return text.slice(0, SNIPPET_CONTEXT * 2);
+  }
+
+  const start = Math.max(0, pos - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, pos + SNIPPET_CONTEXT);
+  return (
+    (start > 0 ? "…" : "") +
+    text.slice(start, end) +
+    (end < text.length ? "…" : "")
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { SqliteDatabase } from "./sqliteReader";
+import { readStorageValue } from "./workspaceStorage";
+
+// Fixtures were written by SQLite 3.40 with the schema VSCode uses for
+// state.vscdb and a 1KB page size, so tables span interior pages and the
+// editor memento spills onto overflow pages:
+//   state.vscdb      300 filler rows, the editor memento with two Claude panels, a non-ASCII value
+//   state-wal.vscdb  a WAL-mode copy whose -wal file holds an uncheckpointed transaction
+const FIXTURES = path.join(__dirname, "fixtures");
+const EDITOR_KEY = "memento/workbench.parts.editor";
+
+describe("SqliteDatabase", () => {
+  it("reads every row of a multi-page table in rowid order", async () => {
+    const db = await SqliteDatabase.open(path.join(FIXTURES, "state.vscdb"));
+    const rows = db.rows("ItemTable");
+    expect(rows).toHaveLength(302);
+    expect(rows[0]).toEqual(["filler.000", "value 0"]);
+    expect(rows[299]).toEqual(["filler.299", "value 299"]);
+  });
+
+  it("follows overflow pages and decodes UTF-8", async () => {
+    const db = await SqliteDatabase.open(path.join(FIXTURES, "state.vscdb"));
+    const rows = new Map(db.rows("ItemTable").map(([key, value]) => [key, value]));
+    expect(rows.get("unicode")).toBe("こんにちは 👋");
+
+    const editorState = rows.get(EDITOR_KEY) as string;
+    expect(editorState.length).toBeGreaterThan(4000);
+    expect(() => JSON.parse(editorState)).not.toThrow();
+    expect(editorState).toContain("sess-login");
+  });
+
+  it("applies committed WAL frames over the main file", async () => {
+    const walDb = await SqliteDatabase.open(path.join(FIXTURES, "state-wal.vscdb"));
+    expect(walDb.rows("ItemTable").map((r) => r[0]).sort()).toEqual(["added", "kept", EDITOR_KEY]);
+
+    // Without the WAL only the checkpointed rows are visible
+    const mainOnly = SqliteDatabase.fromBuffer(fs.readFileSync(path.join(FIXTURES, "state-wal.vscdb")));
+    expect(mainOnly.rows("ItemTable").map((r) => r[0]).sort()).toEqual(["kept", EDITOR_KEY]);
+  });
+
+  it("ignores a WAL whose frames fail the checksum", () => {
+    const main = fs.readFileSync(path.join(FIXTURES, "state-wal.vscdb"));
+    const wal = Buffer.from(fs.readFileSync(path.join(FIXTURES, "state-wal.vscdb-wal")));
+    wal[32 + 24 + 100] ^= 0xff; // corrupt the first frame's page data
+    const db = SqliteDatabase.fromBuffer(main, wal);
+    expect(db.rows("ItemTable").map((r) => r[0]).sort()).toEqual(["kept", EDITOR_KEY]);
+  });
+
+  it("rejects files that are not SQLite databases and unknown tables", async () => {
+    expect(() => SqliteDatabase.fromBuffer(Buffer.from("not a database".padEnd(200)))).toThrow(
+      "Not a SQLite database"
+    );
+    const db = await SqliteDatabase.open(path.join(FIXTURES, "state.vscdb"));
+    expect(() => db.rows("Missing")).toThrow("No such table: Missing");
+  });
+});
+
+describe("readStorageValue", () => {
+  it("reads the editor memento, including uncheckpointed changes", async () => {
+    const value = await readStorageValue(path.join(FIXTURES, "state-wal.vscdb"), EDITOR_KEY);
+    expect(value).toContain("New title");
+    expect(value).not.toContain("Old title");
+    expect(await readStorageValue(path.join(FIXTURES, "state.vscdb"), "missing")).toBeUndefined();
+  });
+
+  it("rejects when the database does not exist", async () => {
+    await expect(readStorageValue(path.join(FIXTURES, "missing.vscdb"), EDITOR_KEY)).rejects.toThrow();
+  });
+});
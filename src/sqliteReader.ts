@@ -0,0 +1,280 @@
+import * as fs from "fs";
+
+/**
+ * Minimal read-only SQLite reader: enough of the file format to scan the
+ * rows of a table (table b-trees, overflow pages, records and the WAL), so
+ * VSCode's state.vscdb can be read without the sqlite3 binary.
+ * See https://www.sqlite.org/fileformat.html
+ */
+
+export type SqliteValue = null | number | string | Buffer;
+
+const HEADER_MAGIC = "SQLite format 3\0";
+const WAL_MAGIC_LE = 0x377f0682; // checksums computed on little-endian words
+const WAL_MAGIC_BE = 0x377f0683;
+const WAL_HEADER_SIZE = 32;
+const WAL_FRAME_HEADER_SIZE = 24;
+
+const PAGE_TABLE_INTERIOR = 0x05;
+const PAGE_TABLE_LEAF = 0x0d;
+
+/**
+ * Read a variable-length integer; returns the value and its length in bytes.
+ */
+function readVarint(buf: Buffer, offset: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = buf[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) {
+      return [value, i + 1];
+    }
+  }
+  return [value * 256 + buf[offset + 8], 9];
+}
+
+/**
+ * Cumulative WAL checksum over `data` (a multiple of 8 bytes), continuing from `s`.
+ */
+function walChecksum(data: Buffer, bigEndian: boolean, s: [number, number]): [number, number] {
+  let [s0, s1] = s;
+  for (let i = 0; i + 8 <= data.length; i += 8) {
+    const x0 = bigEndian ? data.readUInt32BE(i) : data.readUInt32LE(i);
+    const x1 = bigEndian ? data.readUInt32BE(i + 4) : data.readUInt32LE(i + 4);
+    s0 = (s0 + x0 + s1) >>> 0;
+    s1 = (s1 + x1 + s0) >>> 0;
+  }
+  return [s0, s1];
+}
+
+/**
+ * Latest committed version of each page in a write-ahead log. Frames after
+ * the last valid commit (or with a bad checksum or stale salt) are ignored.
+ */
+function readWal(wal: Buffer, pageSize: number): Map<number, Buffer> {
+  const pages = new Map<number, Buffer>();
+  if (wal.length < WAL_HEADER_SIZE) {
+    return pages;
+  }
+  const magic = wal.readUInt32BE(0);
+  if ((magic !== WAL_MAGIC_LE && magic !== WAL_MAGIC_BE) || wal.readUInt32BE(8) !== pageSize) {
+    return pages;
+  }
+  const bigEndian = magic === WAL_MAGIC_BE;
+  let checksum = walChecksum(wal.subarray(0, 24), bigEndian, [0, 0]);
+  if (checksum[0] !== wal.readUInt32BE(24) || checksum[1] !== wal.readUInt32BE(28)) {
+    return pages;
+  }
+  const salt1 = wal.readUInt32BE(16);
+  const salt2 = wal.readUInt32BE(20);
+
+  let pending = new Map<number, Buffer>();
+  const frameSize = WAL_FRAME_HEADER_SIZE + pageSize;
+  for (let offset = WAL_HEADER_SIZE; offset + frameSize <= wal.length; offset += frameSize) {
+    const header = wal.subarray(offset, offset + WAL_FRAME_HEADER_SIZE);
+    const data = wal.subarray(offset + WAL_FRAME_HEADER_SIZE, offset + frameSize);
+    if (header.readUInt32BE(8) !== salt1 || header.readUInt32BE(12) !== salt2) {
+      break;
+    }
+    checksum = walChecksum(data, bigEndian, walChecksum(header.subarray(0, 8), bigEndian, checksum));
+    if (checksum[0] !== header.readUInt32BE(16) || checksum[1] !== header.readUInt32BE(20)) {
+      break;
+    }
+    pending.set(header.readUInt32BE(0), data);
+    // Non-zero database size marks the last frame of a transaction
+    if (header.readUInt32BE(4) !== 0) {
+      for (const [pageNumber, page] of pending) {
+        pages.set(pageNumber, page);
+      }
+      pending = new Map();
+    }
+  }
+  return pages;
+}
+
+export class SqliteDatabase {
+  private readonly pageSize: number;
+  private readonly usableSize: number;
+  private readonly textEncoding: number; // 1 = UTF-8, 2 = UTF-16le, 3 = UTF-16be
+
+  private constructor(
+    private readonly data: Buffer,
+    private readonly walPages: Map<number, Buffer>
+  ) {
+    const rawPageSize = data.readUInt16BE(16);
+    this.pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+    this.usableSize = this.pageSize - data[20];
+    this.textEncoding = data.readUInt32BE(56) || 1;
+  }
+
+  /**
+   * Read a database file (and its -wal file, if any) without locking it.
+   */
+  static async open(filePath: string): Promise<SqliteDatabase> {
+    const data = await fs.promises.readFile(filePath);
+    return SqliteDatabase.fromBuffer(data, await fs.promises.readFile(`${filePath}-wal`).catch(() => undefined));
+  }
+
+  static fromBuffer(data: Buffer, wal?: Buffer): SqliteDatabase {
+    if (data.length < 100 || data.toString("latin1", 0, 16) !== HEADER_MAGIC) {
+      throw new Error("Not a SQLite database");
+    }
+    const db = new SqliteDatabase(data, new Map());
+    return wal ? new SqliteDatabase(data, readWal(wal, db.pageSize)) : db;
+  }
+
+  /**
+   * All rows of a table, as column values in declaration order. INTEGER
+   * PRIMARY KEY columns read as null (their value is the rowid).
+   */
+  rows(tableName: string): SqliteValue[][] {
+    const table = this.scanTable(1).find(
+      (row) => row[0] === "table" && typeof row[1] === "string" && row[1].toLowerCase() === tableName.toLowerCase()
+    );
+    if (!table || typeof table[3] !== "number") {
+      throw new Error(`No such table: ${tableName}`);
+    }
+    return this.scanTable(table[3]);
+  }
+
+  private page(pageNumber: number): Buffer {
+    const fromWal = this.walPages.get(pageNumber);
+    if (fromWal) {
+      return fromWal;
+    }
+    const start = (pageNumber - 1) * this.pageSize;
+    if (pageNumber < 1 || start + this.pageSize > this.data.length) {
+      throw new Error(`Page ${pageNumber} is out of range`);
+    }
+    return this.data.subarray(start, start + this.pageSize);
+  }
+
+  private scanTable(rootPage: number): SqliteValue[][] {
+    const rows: SqliteValue[][] = [];
+    const visited = new Set<number>();
+    const stack = [rootPage];
+    while (stack.length > 0) {
+      const pageNumber = stack.pop()!;
+      if (visited.has(pageNumber)) {
+        throw new Error(`B-tree cycle at page ${pageNumber}`);
+      }
+      visited.add(pageNumber);
+
+      const page = this.page(pageNumber);
+      const headerOffset = pageNumber === 1 ? 100 : 0; // page 1 starts with the file header
+      const type = page[headerOffset];
+      const cellCount = page.readUInt16BE(headerOffset + 3);
+      if (type === PAGE_TABLE_LEAF) {
+        for (let i = 0; i < cellCount; i++) {
+          const cell = page.readUInt16BE(headerOffset + 8 + i * 2);
+          const [payloadSize, n1] = readVarint(page, cell);
+          const [, n2] = readVarint(page, cell + n1); // rowid
+          rows.push(this.decodeRecord(this.readPayload(page, cell + n1 + n2, payloadSize)));
+        }
+      } else if (type === PAGE_TABLE_INTERIOR) {
+        // Pushed in reverse so rows come out in rowid order
+        stack.push(page.readUInt32BE(headerOffset + 8));
+        for (let i = cellCount - 1; i >= 0; i--) {
+          stack.push(page.readUInt32BE(page.readUInt16BE(headerOffset + 12 + i * 2)));
+        }
+      } else {
+        throw new Error(`Unexpected page type ${type} on page ${pageNumber}`);
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * A cell's payload, following overflow pages when it does not fit locally.
+   */
+  private readPayload(page: Buffer, offset: number, size: number): Buffer {
+    const usable = this.usableSize;
+    const maxLocal = usable - 35;
+    if (size <= maxLocal) {
+      return page.subarray(offset, offset + size);
+    }
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+    const k = minLocal + ((size - minLocal) % (usable - 4));
+    const local = k <= maxLocal ? k : minLocal;
+
+    const parts = [page.subarray(offset, offset + local)];
+    let remaining = size - local;
+    let next = page.readUInt32BE(offset + local);
+    const visited = new Set<number>();
+    while (remaining > 0) {
+      if (next === 0 || visited.has(next)) {
+        throw new Error("Truncated overflow chain");
+      }
+      visited.add(next);
+      const overflow = this.page(next);
+      const length = Math.min(remaining, usable - 4);
+      parts.push(overflow.subarray(4, 4 + length));
+      remaining -= length;
+      next = overflow.readUInt32BE(0);
+    }
+    return Buffer.concat(parts);
+  }
+
+  private decodeRecord(payload: Buffer): SqliteValue[] {
+    const [headerSize, n] = readVarint(payload, 0);
+    const serialTypes: number[] = [];
+    for (let offset = n; offset < headerSize; ) {
+      const [serialType, length] = readVarint(payload, offset);
+      serialTypes.push(serialType);
+      offset += length;
+    }
+
+    const values: SqliteValue[] = [];
+    let offset = headerSize;
+    for (const serialType of serialTypes) {
+      switch (serialType) {
+        case 0:
+          values.push(null);
+          break;
+        case 1:
+        case 2:
+        case 3:
+        case 4:
+          values.push(payload.readIntBE(offset, serialType));
+          offset += serialType;
+          break;
+        case 5:
+          values.push(payload.readIntBE(offset, 6));
+          offset += 6;
+          break;
+        case 6:
+          values.push(Number(payload.readBigInt64BE(offset)));
+          offset += 8;
+          break;
+        case 7:
+          values.push(payload.readDoubleBE(offset));
+          offset += 8;
+          break;
+        case 8:
+        case 9:
+          values.push(serialType - 8);
+          break;
+        default: {
+          if (serialType < 12) {
+            throw new Error(`Reserved serial type ${serialType}`);
+          }
+          const length = Math.floor((serialType - 12) / 2);
+          const bytes = payload.subarray(offset, offset + length);
+          values.push(serialType % 2 === 0 ? Buffer.from(bytes) : this.decodeText(bytes));
+          offset += length;
+        }
+      }
+    }
+    return values;
+  }
+
+  private decodeText(bytes: Buffer): string {
+    if (this.textEncoding === 2) {
+      return bytes.toString("utf16le");
+    }
+    if (this.textEncoding === 3) {
+      return Buffer.from(bytes).swap16().toString("utf16le");
+    }
+    return bytes.toString("utf8");
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  TransitionTracker,
+  sessionActivity,
+  activeSessions,
+  stateFilterKey,
+  finishedBefore,
+} from "./stateTransitions";
+import { ConversationMeta, SessionState } from "./types";
+
+function session(
+  sessionId: string,
+  state: "working" | "permission" | "idle",
+  mtime: number
+): ConversationMeta {
+  return {
+    sessionId,
+    title: `title ${sessionId}`,
+    timestamp: new Date(mtime),
+    filePath: `/tmp/${sessionId}.jsonl`,
+    messageCount: 0,
+    toolCallCount: 0,
+    subAgentCount: 0,
+    usageByModel: {},
+    usageBuckets: {},
+    projectPath: "/p",
+    projectDir: "-p",
+    isPinned: false,
+    state: { working: "streaming", permission: "awaitingPermission", idle: "awaitingUser" }[state] as SessionState,
+    stateReason: "",
+    isWaiting: state === "working",
+    isToolUseWaiting: state === "permission",
+  };
+}
+
+describe("sessionActivity", () => {
+  it("collapses session states into activities", () => {
+    expect(sessionActivity(session("a", "permission", 0))).toBe("permission");
+    expect(sessionActivity(session("a", "working", 0))).toBe("working");
+    expect(sessionActivity({ ...session("a", "idle", 0), state: "runningTool" })).toBe("working");
+    expect(sessionActivity(session("a", "idle", 0))).toBe("idle");
+    expect(sessionActivity({ ...session("a", "idle", 0), state: "stale" })).toBe("idle");
+    expect(sessionActivity({ ...session("a", "idle", 0), state: "interrupted" })).toBe("idle");
+  });
+});
+
+describe("TransitionTracker", () => {
+  it("records a baseline on the first update without reporting", () => {
+    const tracker = new TransitionTracker();
+    expect(tracker.update([session("a", "permission", 1000)])).toEqual([]);
+  });
+
+  it("reports working → permission and working/permission → finished", () => {
+    const tracker = new TransitionTracker();
+    tracker.update([session("a", "working", 1000), session("b", "permission", 1000), session("c", "working", 1000)]);
+
+    const transitions = tracker.update([
+      session("a", "permission", 2000),
+      session("b", "idle", 2000),
+      session("c", "working", 2000),
+    ]);
+    expect(transitions.map((t) => [t.kind, t.meta.sessionId])).toEqual([
+      ["permission", "a"],
+      ["finished", "b"],
+    ]);
+
+    // No repeat while the state holds
+    expect(tracker.update([session("a", "permission", 2000), session("b", "idle", 2000)])).toEqual([]);
+  });
+
+  it("reports errored runs separately and interrupted runs not at all", () => {
+    const tracker = new TransitionTracker();
+    tracker.update([session("a", "working", 1000), session("b", "working", 1000), session("c", "working", 1000)]);
+
+    const transitions = tracker.update([
+      { ...session("a", "idle", 2000), state: "errored" },
+      { ...session("b", "idle", 2000), state: "interrupted" },
+      { ...session("c", "idle", 2000), state: "completed" },
+    ]);
+    expect(transitions.map((t) => [t.kind, t.meta.sessionId])).toEqual([
+      ["errored", "a"],
+      ["finished", "c"],
+    ]);
+  });
+
+  it("ignores sessions whose indicators cleared only because they went stale", () => {
+    const tracker = new TransitionTracker();
+    tracker.update([session("a", "working", 1000)]);
+    expect(tracker.update([session("a", "idle", 1000)])).toEqual([]);
+  });
+
+  it("does not report new sessions or permission → working", () => {
+    const tracker = new TransitionTracker();
+    tracker.update([session("a", "permission", 1000)]);
+    expect(tracker.update([session("a", "working", 2000), session("b", "permission", 2000)])).toEqual([]);
+  });
+});
+
+describe("activeSessions", () => {
+  it("splits active sessions by state, most recent first", () => {
+    const active = activeSessions([
+      session("a", "working", 1000),
+      session("b", "idle", 5000),
+      session("c", "permission", 2000),
+      session("d", "working", 3000),
+    ]);
+    expect(active.permission.map((s) => s.sessionId)).toEqual(["c"]);
+    expect(active.working.map((s) => s.sessionId)).toEqual(["d", "a"]);
+  });
+});
+
+describe("stateFilterKey", () => {
+  it("splits errored sessions by cause", () => {
+    const idle = session("a", "idle", 0);
+    expect(stateFilterKey(idle)).toBe("awaitingUser");
+    expect(stateFilterKey({ ...idle, state: "errored", errorKind: "rateLimit" })).toBe("errored:rateLimit");
+    expect(stateFilterKey({ ...idle, state: "errored" })).toBe("errored:api");
+    // A retrying session keeps its state
+    expect(stateFilterKey({ ...idle, state: "streaming", errorKind: "overloaded" })).toBe("streaming");
+  });
+});
+
+describe("finishedBefore", () => {
+  it("keeps idle sessions last written before the cutoff", () => {
+    const stale = finishedBefore(
+      [
+        session("old", "idle", 1000),
+        session("recent", "idle", 5000),
+        session("oldWorking", "working", 1000),
+        session("oldPermission", "permission", 1000),
+      ],
+      new Date(3000)
+    );
+    expect(stale.map((s) => s.sessionId)).toEqual(["old"]);
+  });
+});
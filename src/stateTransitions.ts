@@ -0,0 +1,95 @@
+import { ConversationMeta, SessionState, ErrorKind } from "./types";
+
+export type SessionActivity = "working" | "permission" | "idle";
+
+export type TransitionKind = "permission" | "finished" | "errored";
+
+export interface Transition {
+  kind: TransitionKind;
+  meta: ConversationMeta;
+}
+
+export function sessionActivity(meta: ConversationMeta): SessionActivity {
+  if (meta.state === "awaitingPermission") return "permission";
+  if (meta.state === "streaming" || meta.state === "runningTool") return "working";
+  return "idle";
+}
+
+/**
+ * Remembers each session's activity between refreshes and reports the
+ * transitions worth notifying about. The first update only records a
+ * baseline, so sessions that were already waiting on startup stay quiet.
+ */
+export class TransitionTracker {
+  // sessionId → activity and file mtime at the previous update
+  private previous = new Map<string, { activity: SessionActivity; mtime: number }>();
+  private initialized = false;
+
+  update(conversations: ConversationMeta[]): Transition[] {
+    const transitions: Transition[] = [];
+    const next = new Map<string, { activity: SessionActivity; mtime: number }>();
+
+    for (const meta of conversations) {
+      const activity = sessionActivity(meta);
+      const mtime = meta.timestamp.getTime();
+      next.set(meta.sessionId, { activity, mtime });
+
+      const prev = this.previous.get(meta.sessionId);
+      if (!this.initialized || !prev || prev.activity === activity) {
+        continue;
+      }
+      if (prev.activity === "working" && activity === "permission") {
+        transitions.push({ kind: "permission", meta });
+      } else if (activity === "idle" && mtime > prev.mtime) {
+        // Waiting indicators also clear when a session goes stale; only a
+        // session that wrote something since counts as finished. Runs the
+        // user interrupted are not reported.
+        if (meta.state === "errored") {
+          transitions.push({ kind: "errored", meta });
+        } else if (meta.state === "awaitingUser" || meta.state === "completed") {
+          transitions.push({ kind: "finished", meta });
+        }
+      }
+    }
+
+    this.previous = next;
+    this.initialized = true;
+    return transitions;
+  }
+}
+
+/**
+ * What the state filter matches on: the state, with errored sessions split
+ * by the cause of the error.
+ */
+export type StateFilterKey = Exclude<SessionState, "errored"> | `errored:${ErrorKind}`;
+
+export function stateFilterKey(meta: ConversationMeta): StateFilterKey {
+  return meta.state === "errored" ? `errored:${meta.errorKind ?? "api"}` : meta.state;
+}
+
+export interface ActiveSessions {
+  permission: ConversationMeta[]; // waiting for tool permission
+  working: ConversationMeta[]; // Claude is responding
+}
+
+/**
+ * Sessions that are currently active, most recent first within each state.
+ */
+export function activeSessions(conversations: ConversationMeta[]): ActiveSessions {
+  const byRecency = [...conversations].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  return {
+    permission: byRecency.filter((c) => sessionActivity(c) === "permission"),
+    working: byRecency.filter((c) => sessionActivity(c) === "working"),
+  };
+}
+
+/**
+ * Sessions that finished (are idle) and have not been written to since
+ * `cutoff` — their tabs are safe to close.
+ */
+export function finishedBefore(conversations: ConversationMeta[], cutoff: Date): ConversationMeta[] {
+  return conversations.filter(
+    (c) => sessionActivity(c) === "idle" && c.timestamp.getTime() < cutoff.getTime()
+  );
+}
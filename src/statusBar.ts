@@ -0,0 +1,82 @@
+import * as vscode from "vscode";
+import { ConversationMeta } from "./types";
+import { activeSessions } from "./stateTransitions";
+
+/**
+ * Status bar entry counting running sessions and sessions waiting for
+ * permission. Hidden while nothing is active.
+ */
+export class SessionStatusBar implements vscode.Disposable {
+  private item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+  private conversations: ConversationMeta[] = [];
+
+  constructor() {
+    this.item.name = "Claude Sessions";
+    this.item.command = "claudeConversations.showActiveSessions";
+  }
+
+  update(conversations: ConversationMeta[]): void {
+    this.conversations = conversations;
+    const { permission, working } = activeSessions(conversations);
+    if (permission.length === 0 && working.length === 0) {
+      this.item.hide();
+      return;
+    }
+
+    const parts: string[] = [];
+    if (permission.length > 0) {
+      parts.push(`$(alert) ${permission.length}`);
+    }
+    if (working.length > 0) {
+      parts.push(`$(loading~spin) ${working.length}`);
+    }
+    this.item.text = `Claude ${parts.join(" ")}`;
+    this.item.tooltip = [
+      permission.length > 0 && `${permission.length} waiting for permission`,
+      working.length > 0 && `${working.length} running`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    this.item.backgroundColor =
+      permission.length > 0
+        ? new vscode.ThemeColor("statusBarItem.warningBackground")
+        : undefined;
+    this.item.show();
+  }
+
+  /**
+   * Pick one of the active sessions and open it (reusing its tab if open).
+   */
+  async pickSession(): Promise<void> {
+    const { permission, working } = activeSessions(this.conversations);
+    type SessionItem = vscode.QuickPickItem & { meta?: ConversationMeta };
+    const toItem = (meta: ConversationMeta, icon: string): SessionItem => ({
+      label: `$(${icon}) ${meta.title}`,
+      description: [meta.gitBranch, meta.timestamp.toLocaleTimeString()].filter(Boolean).join(" · "),
+      meta,
+    });
+    const items: SessionItem[] = [];
+    if (permission.length > 0) {
+      items.push({ label: "Waiting for permission", kind: vscode.QuickPickItemKind.Separator });
+      items.push(...permission.map((m) => toItem(m, "alert")));
+    }
+    if (working.length > 0) {
+      items.push({ label: "Running", kind: vscode.QuickPickItemKind.Separator });
+      items.push(...working.map((m) => toItem(m, "loading~spin")));
+    }
+    if (items.length === 0) {
+      vscode.window.showInformationMessage("No active Claude sessions.");
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "Active Claude sessions",
+    });
+    if (picked?.meta) {
+      await vscode.commands.executeCommand("claudeConversations.open", picked.meta);
+    }
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+}
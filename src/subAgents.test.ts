@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { parseSubAgents, subAgentLines, formatDuration } from "./subAgents";
+
+function toLines(records: unknown[]): string[] {
+  return records.map((r) => JSON.stringify(r));
+}
+
+function taskCall(id: string, description: string, prompt: string, timestamp: string, name = "Task") {
+  return {
+    type: "assistant",
+    uuid: `a-${id}`,
+    timestamp,
+    message: {
+      role: "assistant",
+      id: `msg-${id}`,
+      content: [{ type: "tool_use", id, name, input: { description, prompt, subagent_type: "Explore" } }],
+    },
+  };
+}
+
+function taskResult(id: string, timestamp: string, toolUseResult?: unknown, isError = false) {
+  return {
+    type: "user",
+    uuid: `r-${id}`,
+    timestamp,
+    ...(toolUseResult ? { toolUseResult } : {}),
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: id, content: "done", is_error: isError }] },
+  };
+}
+
+function sidechain(uuid: string, parentUuid: string | null, type: "user" | "assistant", content: string | unknown[]) {
+  return {
+    type,
+    uuid,
+    parentUuid,
+    isSidechain: true,
+    message: { role: type, content },
+  };
+}
+
+const toolUse = { type: "tool_use", id: "x", name: "Read", input: {} };
+
+describe("parseSubAgents", () => {
+  it("builds runs from Task calls and links their sidechains by prompt and parentUuid", () => {
+    const lines = toLines([
+      { type: "user", uuid: "u1", message: { role: "user", content: "investigate" } },
+      {
+        type: "assistant",
+        uuid: "a1",
+        timestamp: "2026-02-19T00:00:00Z",
+        message: {
+          role: "assistant",
+          content: [
+            { type: "tool_use", id: "tu_a", name: "Task", input: { description: "Find tests", prompt: "find the tests" } },
+            { type: "tool_use", id: "tu_b", name: "Agent", input: { description: "Read docs", prompt: "read the docs", subagent_type: "Plan" } },
+          ],
+        },
+      },
+      // Parallel sidechains, started in the opposite order
+      sidechain("b1", null, "user", "read the docs"),
+      sidechain("a1s", null, "user", "find the tests"),
+      sidechain("b2", "b1", "assistant", [toolUse]),
+      sidechain("a2", "a1s", "assistant", [toolUse, toolUse]),
+      sidechain("a3", "a2", "assistant", [{ type: "text", text: "found" }]),
+      taskResult("tu_a", "2026-02-19T00:01:30Z", { totalDurationMs: 90_000, totalToolUseCount: 7 }),
+      taskResult("tu_b", "2026-02-19T00:00:45Z", undefined, true),
+    ]);
+
+    const runs = parseSubAgents(lines);
+    expect(runs).toHaveLength(2);
+    expect(runs[0]).toMatchObject({
+      toolUseId: "tu_a",
+      description: "Find tests",
+      agentType: "general-purpose",
+      status: "completed",
+      steps: 7, // from toolUseResult, not the 2 visible calls
+      durationMs: 90_000,
+      uuids: ["a1s", "a2", "a3"],
+    });
+    expect(runs[1]).toMatchObject({
+      toolUseId: "tu_b",
+      agentType: "Plan",
+      status: "failed",
+      steps: 1,
+      durationMs: 45_000, // from timestamps
+      uuids: ["b1", "b2"],
+    });
+  });
+
+  it("leaves a run without a result as running", () => {
+    const runs = parseSubAgents(toLines([
+      taskCall("tu_1", "Long task", "go", "2026-02-19T00:00:00Z"),
+      sidechain("s1", null, "user", "go"),
+      sidechain("s2", "s1", "assistant", [toolUse]),
+    ]));
+    expect(runs[0]).toMatchObject({ status: "running", steps: 1 });
+    expect(runs[0].durationMs).toBeUndefined();
+  });
+
+  it("ignores other tools and sidechain Task calls", () => {
+    const runs = parseSubAgents(toLines([
+      { type: "assistant", message: { role: "assistant", content: [toolUse] } },
+      sidechain("s1", null, "assistant", [{ type: "tool_use", id: "nested", name: "Task", input: {} }]),
+    ]));
+    expect(runs).toEqual([]);
+  });
+});
+
+describe("subAgentLines", () => {
+  it("returns only the sidechain records of the requested run", () => {
+    const lines = toLines([
+      taskCall("tu_1", "One", "first", "2026-02-19T00:00:00Z"),
+      taskCall("tu_2", "Two", "second", "2026-02-19T00:00:01Z"),
+      sidechain("x1", null, "user", "first"),
+      sidechain("y1", null, "user", "second"),
+      sidechain("x2", "x1", "assistant", [{ type: "text", text: "one done" }]),
+    ]);
+    expect(subAgentLines(lines, "tu_1").map((l) => JSON.parse(l).uuid)).toEqual(["x1", "x2"]);
+    expect(subAgentLines(lines, "tu_2").map((l) => JSON.parse(l).uuid)).toEqual(["y1"]);
+    expect(subAgentLines(lines, "missing")).toEqual([]);
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats seconds, minutes and hours", () => {
+    expect(formatDuration(4_400)).toBe("4s");
+    expect(formatDuration(125_000)).toBe("2m 5s");
+    expect(formatDuration(3_900_000)).toBe("1h 5m");
+  });
+});
@@ -0,0 +1,186 @@
+import * as fs from "fs";
+import { JnsonlMessage, ContentBlock } from "./types";
+
+/**
+ * Tools that start a sub-agent (the tool was renamed from Task to Agent).
+ */
+export const SUBAGENT_TOOLS = new Set(["Task", "Agent"]);
+
+export type SubAgentStatus = "running" | "completed" | "failed";
+
+export interface SubAgentRun {
+  toolUseId: string;
+  description: string;
+  agentType: string;
+  prompt: string;
+  status: SubAgentStatus;
+  steps: number; // tool calls made by the sub-agent
+  startTime?: string;
+  endTime?: string;
+  durationMs?: number;
+  uuids: string[]; // sidechain records belonging to this run
+}
+
+function firstText(content: string | ContentBlock[] | undefined): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.find((b) => b.type === "text" && b.text)?.text ?? "";
+  }
+  return "";
+}
+
+function numberField(obj: unknown, key: string): number | undefined {
+  if (obj && typeof obj === "object") {
+    const value = (obj as Record<string, unknown>)[key];
+    return typeof value === "number" ? value : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Reconstruct sub-agent runs from a session's JSONL lines.
+ *
+ * A run starts with a Task/Agent tool_use in the main chain and ends with
+ * its tool_result. Its sidechain records form a uuid → parentUuid chain
+ * whose root user message carries the Task prompt, which is how a chain
+ * is matched to its invocation.
+ */
+export function parseSubAgents(lines: string[]): SubAgentRun[] {
+  const runs: SubAgentRun[] = [];
+  const byToolUseId = new Map<string, SubAgentRun>();
+  const runByUuid = new Map<string, SubAgentRun>();
+  const claimed = new Set<SubAgentRun>(); // runs already matched to a sidechain
+  const explicitSteps = new Set<SubAgentRun>(); // steps reported by the tool result
+  let lastSidechainRun: SubAgentRun | undefined;
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    let obj: JnsonlMessage;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (obj.type !== "user" && obj.type !== "assistant") {
+      continue;
+    }
+    const content = obj.message?.content;
+
+    if (obj.isSidechain) {
+      let run = obj.parentUuid ? runByUuid.get(obj.parentUuid) : undefined;
+      if (!run && !obj.parentUuid && obj.type === "user") {
+        // Root of a new sidechain — match it to its invocation by prompt
+        const prompt = firstText(content);
+        run =
+          runs.find((r) => !claimed.has(r) && r.prompt === prompt) ??
+          runs.find((r) => !claimed.has(r));
+        if (run) {
+          claimed.add(run);
+        }
+      }
+      run ??= lastSidechainRun;
+      if (!run) {
+        continue;
+      }
+      lastSidechainRun = run;
+      if (obj.uuid) {
+        run.uuids.push(obj.uuid);
+        runByUuid.set(obj.uuid, run);
+      }
+      if (obj.type === "assistant" && Array.isArray(content) && !explicitSteps.has(run)) {
+        run.steps += content.filter((b) => b.type === "tool_use").length;
+      }
+      continue;
+    }
+
+    if (!Array.isArray(content)) {
+      continue;
+    }
+    for (const block of content) {
+      if (
+        obj.type === "assistant" &&
+        block.type === "tool_use" &&
+        block.id &&
+        block.name &&
+        SUBAGENT_TOOLS.has(block.name) &&
+        !byToolUseId.has(block.id)
+      ) {
+        const input = (block.input ?? {}) as Record<string, unknown>;
+        const run: SubAgentRun = {
+          toolUseId: block.id,
+          description: String(input.description ?? "Sub-agent"),
+          agentType: String(input.subagent_type ?? "general-purpose"),
+          prompt: String(input.prompt ?? ""),
+          status: "running",
+          steps: 0,
+          startTime: obj.timestamp,
+          uuids: [],
+        };
+        runs.push(run);
+        byToolUseId.set(block.id, run);
+      } else if (
+        obj.type === "user" &&
+        block.type === "tool_result" &&
+        block.tool_use_id
+      ) {
+        const run = byToolUseId.get(block.tool_use_id);
+        if (!run) {
+          continue;
+        }
+        run.status = block.is_error ? "failed" : "completed";
+        run.endTime = obj.timestamp;
+        const duration = numberField(obj.toolUseResult, "totalDurationMs");
+        if (duration !== undefined) {
+          run.durationMs = duration;
+        }
+        const steps = numberField(obj.toolUseResult, "totalToolUseCount");
+        if (steps !== undefined) {
+          run.steps = steps;
+          explicitSteps.add(run);
+        }
+      }
+    }
+  }
+
+  for (const run of runs) {
+    if (run.durationMs === undefined && run.startTime && run.endTime) {
+      run.durationMs = new Date(run.endTime).getTime() - new Date(run.startTime).getTime();
+    }
+  }
+  return runs;
+}
+
+export function readSubAgents(filePath: string): SubAgentRun[] {
+  return parseSubAgents(fs.readFileSync(filePath, "utf8").split("\n"));
+}
+
+/**
+ * Lines of the sidechain belonging to one sub-agent run.
+ */
+export function subAgentLines(lines: string[], toolUseId: string): string[] {
+  const run = parseSubAgents(lines).find((r) => r.toolUseId === toolUseId);
+  if (!run) {
+    return [];
+  }
+  const uuids = new Set(run.uuids);
+  return lines.filter((line) => {
+    try {
+      const obj: JnsonlMessage = JSON.parse(line);
+      return obj.uuid !== undefined && uuids.has(obj.uuid);
+    } catch {
+      return false;
+    }
+  });
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { focusTab, TabGroupsApi, TabGroupView } from "./tabFocus";
+
+// --- helpers ---
+
+interface FakeTab {
+  label: string;
+  isActive: boolean;
+}
+
+interface FakeGroup {
+  tabs: FakeTab[];
+  activeIndex: number;
+  auxiliary: boolean; // in a floating window
+}
+
+const ORDINALS = ["First", "Second", "Third", "Fourth", "Fifth", "Sixth", "Seventh", "Eighth"];
+
+/**
+ * Editor groups that respond to the workbench commands focusTab uses. Main
+ * window groups come first; the focusNth commands only reach those and split
+ * the main window when asked for a group it does not have.
+ */
+class FakeWorkbench implements TabGroupsApi<FakeTab> {
+  readonly commands: string[] = [];
+  private groupList: FakeGroup[];
+  private active = 0;
+  openEditorAtIndexWorks = true;
+
+  constructor(groups: { labels: string[]; auxiliary?: boolean }[]) {
+    this.groupList = groups.map(({ labels, auxiliary }) => ({
+      tabs: labels.map((label) => this.tab(label)),
+      activeIndex: 0,
+      auxiliary: auxiliary ?? false,
+    }));
+  }
+
+  private tab(label: string): FakeTab {
+    const groupList = () => this.groupList;
+    const tab: FakeTab = {
+      label,
+      get isActive() {
+        const group = groupList().find((g) => g.tabs.includes(tab));
+        return group !== undefined && group.tabs[group.activeIndex] === tab;
+      },
+    };
+    return tab;
+  }
+
+  groups(): TabGroupView<FakeTab>[] {
+    return this.groupList.map((group, i) => ({
+      viewColumn: i + 1,
+      isActive: i === this.active,
+      tabs: group.tabs,
+    }));
+  }
+
+  tabAt(group: number, index: number): FakeTab {
+    return this.groupList[group].tabs[index];
+  }
+
+  /** Move a tab to another group; VSCode hands out a new tab object for it. */
+  moveTab(from: number, index: number, to: number): void {
+    const [moved] = this.groupList[from].tabs.splice(index, 1);
+    this.groupList[to].tabs.push(this.tab(moved.label));
+  }
+
+  activeLabel(): string {
+    const group = this.groupList[this.active];
+    return group.tabs[group.activeIndex].label;
+  }
+
+  async executeCommand(command: string, ...args: unknown[]): Promise<unknown> {
+    this.commands.push(args.length > 0 ? `${command} ${args.join(" ")}` : command);
+    const focusGroup = /^workbench\.action\.focus(\w+)EditorGroup$/.exec(command);
+    if (focusGroup) {
+      const n = ORDINALS.indexOf(focusGroup[1]);
+      const mainCount = this.groupList.filter((g) => !g.auxiliary).length;
+      if (n < mainCount) {
+        this.active = n;
+      } else {
+        this.groupList.splice(mainCount, 0, { tabs: [], activeIndex: 0, auxiliary: false });
+        this.active = mainCount;
+      }
+    } else if (command === "workbench.action.closeActiveEditorGroup") {
+      this.groupList.splice(this.active, 1);
+      this.active = Math.max(0, this.active - 1);
+    } else if (command === "workbench.action.focusNextGroup") {
+      this.active = (this.active + 1) % this.groupList.length;
+    } else if (command === "workbench.action.openEditorAtIndex") {
+      if (this.openEditorAtIndexWorks) {
+        this.groupList[this.active].activeIndex = args[0] as number;
+      }
+    } else if (command === "workbench.action.nextEditorInGroup") {
+      const group = this.groupList[this.active];
+      group.activeIndex = (group.activeIndex + 1) % group.tabs.length;
+    }
+    return undefined;
+  }
+}
+
+describe("focusTab", () => {
+  it("focuses a tab beyond the third group directly", async () => {
+    const bench = new FakeWorkbench([
+      { labels: ["a"] },
+      { labels: ["b"] },
+      { labels: ["c"] },
+      { labels: ["d"] },
+      { labels: ["e1", "e2", "e3"] },
+    ]);
+    expect(await focusTab(bench, bench.tabAt(4, 2))).toBe(true);
+    expect(bench.activeLabel()).toBe("e3");
+    expect(bench.commands).toEqual([
+      "workbench.action.focusFifthEditorGroup",
+      "workbench.action.openEditorAtIndex 2",
+    ]);
+  });
+
+  it("uses the tab's current position, not where it was found earlier", async () => {
+    const bench = new FakeWorkbench([{ labels: ["x", "claude"] }, { labels: ["y"] }]);
+    const tab = bench.tabAt(0, 1);
+    bench.moveTab(0, 1, 1);
+
+    expect(await focusTab(bench, tab)).toBe(true);
+    expect(bench.activeLabel()).toBe("claude");
+    expect(bench.commands).toEqual([
+      "workbench.action.focusSecondEditorGroup",
+      "workbench.action.openEditorAtIndex 1",
+    ]);
+  });
+
+  it("reaches groups in auxiliary windows without leaving an extra group behind", async () => {
+    const bench = new FakeWorkbench([{ labels: ["a"] }, { labels: ["b"] }, { labels: ["aux"], auxiliary: true }]);
+    const logs: string[] = [];
+
+    expect(await focusTab(bench, bench.tabAt(2, 0), (m) => logs.push(m))).toBe(true);
+    expect(bench.activeLabel()).toBe("aux");
+    expect(bench.groups()).toHaveLength(3);
+    expect(bench.commands).toContain("workbench.action.closeActiveEditorGroup");
+    expect(logs.some((m) => m.includes("created a new group"))).toBe(true);
+  });
+
+  it("steps through the group's tabs when openEditorAtIndex does not take effect", async () => {
+    const bench = new FakeWorkbench([{ labels: ["a", "b", "c"] }]);
+    bench.openEditorAtIndexWorks = false;
+
+    expect(await focusTab(bench, bench.tabAt(0, 2))).toBe(true);
+    expect(bench.activeLabel()).toBe("c");
+    expect(bench.commands.filter((c) => c === "workbench.action.nextEditorInGroup")).toHaveLength(2);
+  });
+
+  it("returns false for a tab that was closed", async () => {
+    const bench = new FakeWorkbench([{ labels: ["a"] }]);
+    const logs: string[] = [];
+    expect(await focusTab(bench, { label: "gone", isActive: false }, (m) => logs.push(m))).toBe(false);
+    expect(bench.commands).toEqual([]);
+    expect(logs).toEqual(['focusTab: "gone" is no longer open']);
+  });
+});
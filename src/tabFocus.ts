@@ -0,0 +1,165 @@
+/**
+ * Focusing an editor tab through workbench commands. There is no API to
+ * reveal a tab we do not own (Claude Code's webview panels), so the group is
+ * activated first and then the tab within it, checking the live tab state
+ * after every step and falling back to stepping through groups and tabs.
+ *
+ * Written against the subset of `vscode.window.tabGroups` it needs, so it can
+ * be tested without VSCode.
+ */
+
+export interface TabView {
+  readonly label: string;
+  readonly isActive: boolean; // active within its group
+}
+
+export interface TabGroupView<T extends TabView> {
+  readonly viewColumn: number;
+  readonly isActive: boolean;
+  readonly tabs: readonly T[];
+}
+
+export interface TabGroupsApi<T extends TabView> {
+  groups(): readonly TabGroupView<T>[]; // every group, including auxiliary windows
+  executeCommand(command: string, ...args: unknown[]): Thenable<unknown>;
+}
+
+// Focus the Nth group of the main window; creates the group when it does not exist
+const FOCUS_GROUP_COMMANDS = [
+  "workbench.action.focusFirstEditorGroup",
+  "workbench.action.focusSecondEditorGroup",
+  "workbench.action.focusThirdEditorGroup",
+  "workbench.action.focusFourthEditorGroup",
+  "workbench.action.focusFifthEditorGroup",
+  "workbench.action.focusSixthEditorGroup",
+  "workbench.action.focusSeventhEditorGroup",
+  "workbench.action.focusEighthEditorGroup",
+];
+
+// Tab state reaches the extension host asynchronously after a command
+const SETTLE_ATTEMPTS = 5;
+const SETTLE_DELAY_MS = 20;
+
+interface Located<T extends TabView> {
+  group: TabGroupView<T>;
+  tab: T;
+  index: number;
+}
+
+/**
+ * Where the tab is now. Tab objects are replaced when a tab moves to another
+ * group, so a tab with the same label stands in when the object is gone.
+ */
+function locate<T extends TabView>(api: TabGroupsApi<T>, target: T): Located<T> | undefined {
+  const groups = api.groups();
+  for (const group of groups) {
+    const index = group.tabs.indexOf(target);
+    if (index >= 0) return { group, tab: target, index };
+  }
+  for (const group of groups) {
+    const index = group.tabs.findIndex((t) => t.label === target.label);
+    if (index >= 0) return { group, tab: group.tabs[index], index };
+  }
+  return undefined;
+}
+
+async function settled(check: () => boolean): Promise<boolean> {
+  for (let attempt = 0; attempt < SETTLE_ATTEMPTS; attempt++) {
+    if (check()) return true;
+    await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY_MS));
+  }
+  return check();
+}
+
+function isGroupActive<T extends TabView>(api: TabGroupsApi<T>, target: T): boolean {
+  return locate(api, target)?.group.isActive ?? false;
+}
+
+/**
+ * Activate the group holding `target`. Groups are recognized by the tab they
+ * hold, since view columns shift when groups are added or closed.
+ */
+async function activateGroup<T extends TabView>(
+  api: TabGroupsApi<T>,
+  target: T,
+  viewColumn: number,
+  log: (message: string) => void
+): Promise<boolean> {
+  if (isGroupActive(api, target)) return true;
+
+  // Direct: view columns follow the grid order the focus commands use
+  const command = FOCUS_GROUP_COMMANDS[viewColumn - 1];
+  if (command) {
+    const groupCount = api.groups().length;
+    await api.executeCommand(command);
+    if (await settled(() => isGroupActive(api, target))) return true;
+    if (api.groups().length > groupCount) {
+      // The group is in an auxiliary window, so the command split the main window instead
+      log(`  ${command} created a new group; closing it`);
+      await api.executeCommand("workbench.action.closeActiveEditorGroup");
+    } else {
+      log(`  ${command} did not activate group ${viewColumn}`);
+    }
+  }
+
+  // Fallback: step through the groups
+  const groupCount = api.groups().length;
+  for (let i = 0; i < groupCount; i++) {
+    await api.executeCommand("workbench.action.focusNextGroup");
+    if (await settled(() => isGroupActive(api, target))) return true;
+  }
+  log(`  could not activate group ${viewColumn}`);
+  return false;
+}
+
+async function activateTab<T extends TabView>(
+  api: TabGroupsApi<T>,
+  target: T,
+  log: (message: string) => void
+): Promise<boolean> {
+  const isActive = () => {
+    const located = locate(api, target);
+    return located !== undefined && located.group.isActive && located.tab.isActive;
+  };
+  const located = locate(api, target);
+  if (!located) return false;
+  if (located.tab.isActive) return true;
+
+  // Direct: the tab's current index, read after its group became active
+  await api.executeCommand("workbench.action.openEditorAtIndex", located.index);
+  if (await settled(isActive)) return true;
+  log(`  openEditorAtIndex ${located.index} did not activate ${JSON.stringify(target.label)}`);
+
+  // Fallback: step through the group's tabs
+  for (let i = 0; i < located.group.tabs.length; i++) {
+    await api.executeCommand("workbench.action.nextEditorInGroup");
+    if (await settled(isActive)) return true;
+  }
+  log(`  could not activate ${JSON.stringify(target.label)}`);
+  return false;
+}
+
+/**
+ * Make `target` the active tab of the active group, wherever it is.
+ * Returns whether it ended up focused.
+ */
+export async function focusTab<T extends TabView>(
+  api: TabGroupsApi<T>,
+  target: T,
+  log: (message: string) => void = () => {}
+): Promise<boolean> {
+  const located = locate(api, target);
+  if (!located) {
+    log(`focusTab: ${JSON.stringify(target.label)} is no longer open`);
+    return false;
+  }
+  log(`focusTab: ${JSON.stringify(target.label)} in group ${located.group.viewColumn} at index ${located.index}`);
+  try {
+    return (
+      (await activateGroup(api, target, located.group.viewColumn, log)) && (await activateTab(api, target, log))
+    );
+  } catch (err) {
+    log(`  failed: ${err}`);
+    return false;
+  }
+}
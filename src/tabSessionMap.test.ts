@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { TabSessionMap } from "./tabSessionMap";
+
+// Tabs are matched by identity, like the objects VSCode hands out
+function tab(label: string): { label: string } {
+  return { label };
+}
+
+describe("TabSessionMap", () => {
+  it("maps open tabs to sessions by known title and reports changes", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setTitle("s1", "Fix the login bug");
+    const t1 = tab("Fix the login bug");
+
+    expect(map.update([t1])).toBe(true);
+    expect(map.tabOf("s1")).toBe(t1);
+    expect(map.update([t1])).toBe(false);
+  });
+
+  it("does not bind a label that merely starts with a known title", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setTitle("old", "Fix bug");
+    const t1 = tab("Fix bug in parser");
+    map.update([t1]);
+    expect(map.tabOf("old")).toBeUndefined();
+  });
+
+  it("matches a truncated label to the longest title as a guess", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setTitle("short", "Refactor the conversation parser");
+    map.setTitle("long", "Refactor the conversation parser module");
+    const t1 = tab("Refactor the conversatio…");
+    map.update([t1]);
+
+    expect(map.tabOf("long")).toBe(t1);
+    expect(map.tabOf("long", true)).toBeUndefined();
+    expect(map.tabOf("short")).toBeUndefined();
+  });
+
+  it("never gives a tab a session another tab shows", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setTitle("s1", "Same title");
+    const t1 = tab("Same title");
+    const t2 = tab("Same title");
+    map.update([t1, t2]);
+
+    expect(map.tabOf("s1")).toBe(t1);
+    expect(map.sessionOf(t2)).toBeUndefined();
+  });
+
+  it("keeps a session when its tab is renamed", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setTitle("s1", "Old title");
+    const t1 = tab("Old title");
+    map.update([t1]);
+
+    t1.label = "New title";
+    expect(map.update([t1])).toBe(false);
+    expect(map.tabOf("s1")).toBe(t1);
+    expect(map.titles().get("s1")).toBe("New title");
+  });
+
+  it("keeps a session when its tab moves to another group", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setTitle("s1", "Moving");
+    map.update([tab("Moving")]);
+    // Another session now claims the title, so only the move identifies s1
+    map.setTitle("s2", "Moving");
+
+    const moved = tab("Moving");
+    expect(map.update([moved])).toBe(false);
+    expect(map.tabOf("s1")).toBe(moved);
+  });
+
+  it("evicts sessions whose tab was closed", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setTitle("s1", "One");
+    map.setTitle("s2", "Two");
+    const t1 = tab("One");
+    const t2 = tab("Two");
+    map.update([t1, t2]);
+
+    expect(map.update([t2])).toBe(true);
+    expect(map.openSessions()).toEqual(new Set(["s2"]));
+    expect(map.titles().has("s1")).toBe(false);
+    // Reopening the same title is not mistaken for the closed session
+    expect(map.update([t2, tab("One")])).toBe(false);
+    expect(map.tabOf("s1")).toBeUndefined();
+  });
+
+  it("follows a tab to the new session after /clear", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setConversations([{ sessionId: "s1", title: "Before clear" }]);
+    const t1 = tab("Before clear");
+    map.update([t1]);
+    expect(map.tabOf("s1")).toBe(t1);
+
+    // The tab resets, then takes the title of the new session once it has one
+    t1.label = "Claude Code";
+    expect(map.update([t1])).toBe(true);
+    expect(map.openSessions().size).toBe(0);
+
+    t1.label = "After clear";
+    map.update([t1]);
+    expect(map.tabOf("s2")).toBeUndefined();
+    map.setConversations([
+      { sessionId: "s1", title: "Before clear" },
+      { sessionId: "s2", title: "After clear" },
+    ]);
+    expect(map.update([t1])).toBe(true);
+    expect(map.tabOf("s2")).toBe(t1);
+    expect(map.tabOf("s1")).toBeUndefined();
+  });
+
+  it("switches sessions when a renamed tab takes another conversation's title", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    map.setConversations([
+      { sessionId: "s1", title: "First prompt" },
+      { sessionId: "s2", title: "Second prompt" },
+    ]);
+    const t1 = tab("First prompt");
+    map.update([t1]);
+
+    t1.label = "Second prompt";
+    map.update([t1]);
+    expect(map.tabOf("s2")).toBe(t1);
+    expect(map.tabOf("s1")).toBeUndefined();
+  });
+
+  it("binds a tab matched some other way", () => {
+    const map = new TabSessionMap<{ label: string }>();
+    const t1 = tab("Unknown");
+    map.update([t1]);
+    map.bind(t1, "s9");
+    expect(map.tabOf("s9", true)).toBe(t1);
+    expect(map.update([t1])).toBe(false);
+
+    const t2 = tab("Guessed");
+    map.update([t1, t2]);
+    map.bind(t2, "s8", true);
+    expect(map.tabOf("s8")).toBe(t2);
+    expect(map.tabOf("s8", true)).toBeUndefined();
+    expect(map.titles().has("s8")).toBe(false);
+  });
+});
@@ -0,0 +1,224 @@
+import { collapseWhitespace, normalizeTabTitle } from "./tabTitleUtils";
+
+/**
+ * Label of a Claude Code tab before its session has a title (a new session,
+ * or one just reset with /clear).
+ */
+export const PLACEHOLDER_TAB_LABEL = "Claude Code";
+
+export interface TabLabel {
+  readonly label: string;
+}
+
+interface TabEntry {
+  label: string; // normalized label at the last update
+  sessionId?: string;
+  guessed: boolean; // matched through a truncated title, not an exact one
+}
+
+interface Match {
+  sessionId: string;
+  guessed: boolean;
+}
+
+/**
+ * Which session each open Claude Code tab shows, kept up to date from the
+ * tabs that are open. Known tab titles (from VSCode's saved editor state or
+ * sessions we opened) and conversation titles identify new tabs; a tab keeps
+ * its session when it is renamed or moved to another group, and switches to
+ * another session when its new label is that session's title (/clear).
+ * A tab is never given a session another tab already shows. Matches where
+ * the label is only Claude Code's truncation of a title are marked as guesses.
+ *
+ * Tab objects are compared by identity, as VSCode hands out one per tab.
+ */
+export class TabSessionMap<T extends TabLabel> {
+  // sessionId ↔ expected tab title
+  private sessionToTitle = new Map<string, string>();
+  private titleToSession = new Map<string, string>();
+  // normalized conversation title → session (guessed when the title was truncated), and back
+  private conversationSessions = new Map<string, Match>();
+  private conversationTitles = new Map<string, string>();
+  // open tab → its label and session at the last update
+  private tabs = new Map<T, TabEntry>();
+
+  /**
+   * Record the tab title a session is expected to show.
+   */
+  setTitle(sessionId: string, title: string): void {
+    const previous = this.sessionToTitle.get(sessionId);
+    if (previous !== undefined && this.titleToSession.get(previous) === sessionId) {
+      this.titleToSession.delete(previous);
+    }
+    this.sessionToTitle.set(sessionId, title);
+    this.titleToSession.set(title, sessionId);
+  }
+
+  titles(): ReadonlyMap<string, string> {
+    return this.sessionToTitle;
+  }
+
+  /**
+   * Titles of the known conversations, used to recognize tabs nothing else
+   * identifies. Later entries win for duplicate titles, so pass oldest first.
+   */
+  setConversations(conversations: { sessionId: string; title: string }[]): void {
+    this.conversationSessions.clear();
+    this.conversationTitles.clear();
+    for (const { sessionId, title } of conversations) {
+      const normalized = normalizeTabTitle(title);
+      this.conversationSessions.set(normalized, { sessionId, guessed: normalized !== collapseWhitespace(title) });
+      this.conversationTitles.set(sessionId, normalized);
+    }
+  }
+
+  /**
+   * Show `sessionId` in `tab` (a match found some other way). A guessed
+   * binding does not teach the map the tab's title.
+   */
+  bind(tab: T, sessionId: string, guessed = false): void {
+    const label = collapseWhitespace(tab.label);
+    this.tabs.set(tab, { label, sessionId, guessed });
+    if (!guessed) {
+      this.setTitle(sessionId, label);
+    }
+  }
+
+  /**
+   * Bring the map in line with the Claude Code tabs that are open now.
+   * Returns whether the set of sessions with an open tab changed.
+   */
+  update(openTabs: readonly T[]): boolean {
+    const before = this.openSessions();
+    const open = new Set(openTabs);
+    const closed = [...this.tabs].filter(([tab]) => !open.has(tab));
+    for (const [tab] of closed) {
+      this.tabs.delete(tab);
+    }
+
+    for (const tab of openTabs) {
+      const label = collapseWhitespace(tab.label);
+      const previous = this.tabs.get(tab);
+      let match: Match | undefined;
+      if (label === PLACEHOLDER_TAB_LABEL) {
+        match = undefined;
+      } else if (previous?.sessionId && !(previous.guessed && previous.label === label)) {
+        // Same tab as before; a new label is a new title for its session
+        match = { sessionId: previous.sessionId, guessed: previous.guessed };
+      } else if (previous?.sessionId) {
+        // A guess stands until an exact title turns up
+        const exact = this.matchLabel(tab, label);
+        match = exact && !exact.guessed ? exact : { sessionId: previous.sessionId, guessed: true };
+      } else if (!previous) {
+        // A tab moved to another group reappears as a new tab with the same label
+        const moved = closed.findIndex(([, t]) => t.label === label && t.sessionId);
+        if (moved >= 0) {
+          const [, entry] = closed.splice(moved, 1)[0];
+          match = { sessionId: entry.sessionId!, guessed: entry.guessed };
+        } else {
+          match = this.matchLabel(tab, label);
+        }
+      } else {
+        match = this.matchLabel(tab, label);
+      }
+
+      // After /clear the tab shows a new session under that session's title
+      const byConversation = this.conversationSessions.get(label);
+      if (
+        byConversation &&
+        byConversation.sessionId !== match?.sessionId &&
+        !this.isClaimed(byConversation.sessionId, tab) &&
+        (match === undefined ||
+          (this.conversationTitles.has(match.sessionId) && this.conversationTitles.get(match.sessionId) !== label))
+      ) {
+        match = byConversation;
+      }
+
+      this.tabs.set(tab, { label, sessionId: match?.sessionId, guessed: match?.guessed ?? false });
+      if (match && !match.guessed && this.sessionToTitle.get(match.sessionId) !== label) {
+        this.setTitle(match.sessionId, label);
+      }
+    }
+
+    // Forget sessions whose tab was closed, unless another tab still shows them
+    const stillOpen = this.openSessions();
+    for (const [, { sessionId }] of closed) {
+      if (sessionId && !stillOpen.has(sessionId)) {
+        this.forget(sessionId);
+      }
+    }
+
+    return !sameSet(before, stillOpen);
+  }
+
+  /**
+   * The open tab showing `sessionId`; with `exactOnly`, not one matched by a
+   * truncated title.
+   */
+  tabOf(sessionId: string, exactOnly = false): T | undefined {
+    for (const [tab, entry] of this.tabs) {
+      if (entry.sessionId === sessionId && !(exactOnly && entry.guessed)) return tab;
+    }
+    return undefined;
+  }
+
+  sessionOf(tab: T): string | undefined {
+    return this.tabs.get(tab)?.sessionId;
+  }
+
+  openSessions(): Set<string> {
+    const sessions = new Set<string>();
+    for (const { sessionId } of this.tabs.values()) {
+      if (sessionId) sessions.add(sessionId);
+    }
+    return sessions;
+  }
+
+  /**
+   * The session expected under a tab label: an exact known title, else the
+   * longest known title the label is Claude Code's truncation of, else a
+   * conversation title. Sessions another tab shows are skipped.
+   */
+  private matchLabel(tab: T, label: string): Match | undefined {
+    const exact = this.titleToSession.get(label);
+    if (exact && !this.isClaimed(exact, tab)) {
+      return { sessionId: exact, guessed: false };
+    }
+    let best: { sessionId: string; title: string } | undefined;
+    for (const [sessionId, title] of this.sessionToTitle) {
+      if (
+        title !== label &&
+        normalizeTabTitle(title) === label &&
+        (!best || title.length > best.title.length) &&
+        !this.isClaimed(sessionId, tab)
+      ) {
+        best = { sessionId, title };
+      }
+    }
+    if (best) {
+      return { sessionId: best.sessionId, guessed: true };
+    }
+    const byConversation = this.conversationSessions.get(label);
+    return byConversation && !this.isClaimed(byConversation.sessionId, tab) ? byConversation : undefined;
+  }
+
+  /** Whether a tab other than `tab` shows the session. */
+  private isClaimed(sessionId: string, tab: T): boolean {
+    for (const [other, entry] of this.tabs) {
+      if (other !== tab && entry.sessionId === sessionId) return true;
+    }
+    return false;
+  }
+
+  private forget(sessionId: string): void {
+    const title = this.sessionToTitle.get(sessionId);
+    this.sessionToTitle.delete(sessionId);
+    if (title !== undefined && this.titleToSession.get(title) === sessionId) {
+      this.titleToSession.delete(title);
+    }
+  }
+}
+
+function sameSet(a: ReadonlySet<string>, b: ReadonlySet<string>): boolean {
+  return a.size === b.size && [...a].every((x) => b.has(x));
+}
@@ -1,33 +1,53 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as os from "os";
-import * as fs from "fs";
-import { execSync } from "child_process";
 import { normalizeTabTitle, collapseWhitespace } from "./tabTitleUtils";
+import { focusTab } from "./tabFocus";
+import { TabSessionMap, PLACEHOLDER_TAB_LABEL } from "./tabSessionMap";
+import { ConversationMeta } from "./types";
+import { WorkspaceTarget, locateWorkspaceStorageDir, readStorageValue } from "./workspaceStorage";
+import { log } from "./log";
+
+export interface TabLocation {
+  tab: vscode.Tab;
+  groupIndex: number;
+  tabIndex: number;
+}
+
+interface ClaudeTab extends TabLocation {
+  normalizedLabel: string;
+}
 
 /**
  * Tracks which Claude Code sessions are open as editor tabs.
  * Uses VSCode's internal SQLite state database to map tab titles → session IDs,
- * then matches against runtime tab labels.
+ * then follows runtime tabs as they open, close, move and change title.
  */
-const log = vscode.window.createOutputChannel("Claude Conversations");
+export class TabSessionTracker implements vscode.Disposable {
+  private sessions = new TabSessionMap<vscode.Tab>();
+  private disposables: vscode.Disposable[] = [];
 
-export class TabSessionTracker {
-  // sessionId → tab title (from SQLite)
-  private sessionToTitle = new Map<string, string>();
-  // title → sessionId (reverse lookup)
-  private titleToSession = new Map<string, string>();
+  // Fired with the sessions that have an open tab, whenever that set changes
+  private _onDidChangeOpenSessions = new vscode.EventEmitter<ReadonlySet<string>>();
+  readonly onDidChangeOpenSessions = this._onDidChangeOpenSessions.event;
 
-  constructor() {
-    this.readFromSqlite();
+  // context.storageUri, whose parent is this window's workspace storage directory
+  constructor(private readonly storageUri?: vscode.Uri) {
     this.trackTabChanges();
-    this.logState();
+    void this.readFromSqlite().then(() => this.logState());
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this._onDidChangeOpenSessions.dispose();
   }
 
   private logState(): void {
     log.appendLine("=== TabSessionTracker initialized ===");
-    log.appendLine(`SQLite mappings: ${this.sessionToTitle.size}`);
-    for (const [sid, title] of this.sessionToTitle) {
+    log.appendLine(`Known tab titles: ${this.sessions.titles().size}`);
+    for (const [sid, title] of this.sessions.titles()) {
       log.appendLine(`  sid=${sid} → title=${JSON.stringify(title)}`);
     }
     let webviewCount = 0;
@@ -46,60 +66,55 @@ export class TabSessionTracker {
     }
   }
 
+  /**
+   * The window's workspace: the .code-workspace file of a multi-root
+   * workspace (saved or untitled), otherwise the single open folder.
+   */
+  private static workspaceTarget(): WorkspaceTarget | undefined {
+    const workspaceFile = vscode.workspace.workspaceFile;
+    if (workspaceFile) {
+      return { kind: "workspace", path: workspaceFile.fsPath };
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? { kind: "folder", path: folder.uri.fsPath } : undefined;
+  }
+
   /**
    * Read VSCode's internal state.vscdb to get title↔sessionId mappings
    * for currently persisted Claude Code editor panels.
    */
-  private readFromSqlite(): void {
+  private async readFromSqlite(): Promise<void> {
     try {
-      const workspacePath =
-        vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-      if (!workspacePath) return;
+      const target = TabSessionTracker.workspaceTarget();
+      if (!target) return;
 
-      const storagePath = path.join(
-        os.homedir(),
-        "Library",
-        "Application Support",
-        "Code",
-        "User",
-        "workspaceStorage"
+      // Find the workspace's storage directory (VSCode, Insiders, VSCodium,
+      // Cursor; macOS, Linux, Windows and portable installs)
+      const storageDir = locateWorkspaceStorageDir(
+        {
+          platform: process.platform,
+          home: os.homedir(),
+          env: process.env,
+          appName: vscode.env.appName,
+          storageUri: this.storageUri?.fsPath,
+        },
+        target
       );
+      if (!storageDir) return;
 
-      if (!fs.existsSync(storagePath)) return;
-
-      // Find workspace hash by matching workspace.json
-      let hash: string | undefined;
-      for (const dir of fs.readdirSync(storagePath)) {
-        const wsJsonPath = path.join(storagePath, dir, "workspace.json");
-        try {
-          const wsJson = JSON.parse(fs.readFileSync(wsJsonPath, "utf8"));
-          if (wsJson.folder === `file://${workspacePath}`) {
-            hash = dir;
-            break;
-          }
-        } catch {
-          // skip
-        }
-      }
-
-      if (!hash) return;
-
-      const dbPath = path.join(storagePath, hash, "state.vscdb");
-      if (!fs.existsSync(dbPath)) return;
-
-      // Read SQLite via CLI (built-in on macOS). Use -readonly to avoid lock issues.
-      const result = execSync(
-        `sqlite3 -readonly "${dbPath}" "SELECT value FROM ItemTable WHERE key = 'memento/workbench.parts.editor'"`,
-        { timeout: 5000, encoding: "utf8" }
+      // Parsed in-process from a snapshot of the file, so no locks are taken
+      const result = await readStorageValue(
+        path.join(storageDir, "state.vscdb"),
+        "memento/workbench.parts.editor"
       );
-
       if (!result?.trim()) return;
 
       const editorState = JSON.parse(result.trim());
       this.extractSessions(editorState);
     } catch {
-      // Database locked, format changed, or sqlite3 not available — silently ignore
+      // Database missing, unreadable or format changed — silently ignore
     }
+    this.sync();
   }
 
   /**
@@ -142,8 +157,7 @@ export class TabSessionTracker {
       try {
         const state = JSON.parse(rec.state);
         if (state.sessionID) {
-          this.sessionToTitle.set(state.sessionID, rec.title);
-          this.titleToSession.set(rec.title, state.sessionID);
+          this.sessions.setTitle(state.sessionID, rec.title);
         }
       } catch {
         // skip
@@ -156,61 +170,51 @@ export class TabSessionTracker {
   }
 
   /**
-   * Track runtime tab changes to keep our mapping up to date.
-   * When a new Claude Code tab appears with a title that matches one of our
-   * conversation titles, record the mapping.
+   * Follow tabs as they open, close, move and change title.
    */
   private trackTabChanges(): void {
-    vscode.window.tabGroups.onDidChangeTabs(() => {
-      // Update title→session mapping for newly renamed tabs
-      for (const group of vscode.window.tabGroups.all) {
-        for (const tab of group.tabs) {
-          if (
-            tab.input instanceof vscode.TabInputWebview &&
-            (tab.input as vscode.TabInputWebview).viewType ===
-              "claudeVSCodePanel" &&
-            tab.label !== "Claude Code"
-          ) {
-            // If we already have a session for this title, keep it.
-            // Otherwise it's a new tab we don't know the session for yet.
-          }
-        }
-      }
-    });
+    this.disposables.push(vscode.window.tabGroups.onDidChangeTabs(() => this.sync()));
+  }
+
+  /**
+   * Update the session of each open tab, and announce a changed set of open sessions.
+   */
+  private sync(): void {
+    if (this.sessions.update(TabSessionTracker.claudeTabs().map((ct) => ct.tab))) {
+      this._onDidChangeOpenSessions.fire(this.sessions.openSessions());
+    }
+  }
+
+  /**
+   * Titles of the loaded conversations, to recognize tabs of sessions started
+   * outside this extension and tabs reused by /clear.
+   */
+  setConversations(conversations: ConversationMeta[]): void {
+    this.sessions.setConversations(
+      [...conversations].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    );
+    this.sync();
   }
 
   /**
    * Register a mapping when we open a session (so we can track it at runtime).
    */
   registerOpen(sessionId: string, conversationTitle: string): void {
-    const tabTitle = normalizeTabTitle(conversationTitle);
-    this.sessionToTitle.set(sessionId, tabTitle);
-    this.titleToSession.set(tabTitle, sessionId);
+    this.sessions.setTitle(sessionId, normalizeTabTitle(conversationTitle));
   }
 
   /**
-   * Find a Claude Code tab that's showing the given session.
-   * Returns the Tab + its group index if found.
-   * If the session is not in the local mapping, re-reads SQLite to pick up
-   * tabs opened externally (e.g. by Claude Code directly).
+   * Sessions that have an open tab.
    */
-  findTabForSession(
-    sessionId: string,
-    conversationTitle?: string
-  ): { tab: vscode.Tab; groupIndex: number; tabIndex: number } | undefined {
-    let title = this.sessionToTitle.get(sessionId);
-    log.appendLine(`findTabForSession: sid=${sessionId} → expected title=${JSON.stringify(title)}`);
-
-    // If we don't have a mapping, re-read SQLite to discover externally opened tabs
-    if (!title) {
-      log.appendLine("  → no mapping, re-reading SQLite...");
-      this.readFromSqlite();
-      title = this.sessionToTitle.get(sessionId);
-      log.appendLine(`  → after re-read: title=${JSON.stringify(title)}`);
-    }
+  openSessions(): ReadonlySet<string> {
+    return this.sessions.openSessions();
+  }
 
-    // Collect all Claude Code tabs for multi-strategy matching
-    const claudeTabs: { tab: vscode.Tab; groupIndex: number; tabIndex: number; normalizedLabel: string }[] = [];
+  /**
+   * All open Claude Code tabs, with their labels whitespace-normalized.
+   */
+  private static claudeTabs(): ClaudeTab[] {
+    const claudeTabs: ClaudeTab[] = [];
     for (let gi = 0; gi < vscode.window.tabGroups.all.length; gi++) {
       const group = vscode.window.tabGroups.all[gi];
       for (let ti = 0; ti < group.tabs.length; ti++) {
@@ -223,40 +227,60 @@ export class TabSessionTracker {
         }
       }
     }
+    return claudeTabs;
+  }
 
-    // Strategy 1: Match by SQLite-derived title
-    if (title) {
-      for (const ct of claudeTabs) {
-        const match = ct.normalizedLabel === title || ct.normalizedLabel.startsWith(title);
-        log.appendLine(`  tab[${ct.groupIndex}][${ct.tabIndex}]: label=${JSON.stringify(ct.tab.label)} normalizedLabel=${JSON.stringify(ct.normalizedLabel)} match=${match}`);
-        if (match) {
-          return { tab: ct.tab, groupIndex: ct.groupIndex, tabIndex: ct.tabIndex };
-        }
-      }
+  /**
+   * The open tab of a session, as currently mapped. Cheap enough to call for
+   * every item of the tree. With `exactOnly`, tabs matched only through a
+   * truncated title or the conversation title fallback are left out.
+   */
+  openTabOf(sessionId: string, exactOnly = false): TabLocation | undefined {
+    const tab = this.sessions.tabOf(sessionId, exactOnly);
+    return tab && TabSessionTracker.claudeTabs().find((ct) => ct.tab === tab);
+  }
+
+  /**
+   * Find a Claude Code tab that's showing the given session.
+   * Returns the Tab + its group index if found.
+   * If the session is not mapped to a tab, re-reads SQLite to pick up
+   * tabs opened externally (e.g. by Claude Code directly).
+   */
+  async findTabForSession(
+    sessionId: string,
+    conversationTitle?: string
+  ): Promise<TabLocation | undefined> {
+    let found = this.openTabOf(sessionId);
+    log.appendLine(`findTabForSession: sid=${sessionId} → mapped tab=${JSON.stringify(found?.tab.label)}`);
+
+    // If we don't have a mapping, re-read SQLite to discover externally opened tabs
+    if (!found) {
+      log.appendLine("  → no mapping, re-reading SQLite...");
+      await this.readFromSqlite();
+      found = this.openTabOf(sessionId);
+      log.appendLine(`  → after re-read: tab=${JSON.stringify(found?.tab.label)}`);
+    }
+    if (found) {
+      return found;
     }
 
-    // Strategy 2: Match by conversation title from JSONL metadata.
-    // Handles post-/clear cases where SQLite hasn't been updated with the new session ID yet
-    // but the tab label already reflects the conversation title.
+    // Fallback: match by conversation title from JSONL metadata.
+    // Handles post-/clear cases where neither SQLite nor the conversation list
+    // has caught up with the new session ID yet, but the tab label already
+    // reflects the conversation title.
     if (conversationTitle) {
       const normalizedConvTitle = normalizeTabTitle(conversationTitle);
-      if (normalizedConvTitle && normalizedConvTitle !== title && normalizedConvTitle !== "Claude Code") {
+      if (normalizedConvTitle && normalizedConvTitle !== PLACEHOLDER_TAB_LABEL) {
         log.appendLine(`  → fallback: trying JSONL title ${JSON.stringify(normalizedConvTitle)}`);
-        for (const ct of claudeTabs) {
-          if (ct.normalizedLabel === normalizedConvTitle) {
-            log.appendLine(`  fallback exact match tab[${ct.groupIndex}][${ct.tabIndex}]`);
-            this.sessionToTitle.set(sessionId, ct.normalizedLabel);
-            this.titleToSession.set(ct.normalizedLabel, sessionId);
-            return { tab: ct.tab, groupIndex: ct.groupIndex, tabIndex: ct.tabIndex };
-          }
-        }
-        for (const ct of claudeTabs) {
-          if (ct.normalizedLabel.startsWith(normalizedConvTitle)) {
-            log.appendLine(`  fallback startsWith match tab[${ct.groupIndex}][${ct.tabIndex}]`);
-            this.sessionToTitle.set(sessionId, ct.normalizedLabel);
-            this.titleToSession.set(ct.normalizedLabel, sessionId);
-            return { tab: ct.tab, groupIndex: ct.groupIndex, tabIndex: ct.tabIndex };
-          }
+        // Only tabs no other session claims, and only the exact (possibly truncated) title
+        const ct = TabSessionTracker.claudeTabs().find(
+          (t) => t.normalizedLabel === normalizedConvTitle && this.sessions.sessionOf(t.tab) === undefined
+        );
+        if (ct) {
+          log.appendLine(`  fallback match tab[${ct.groupIndex}][${ct.tabIndex}]`);
+          this.sessions.bind(ct.tab, sessionId, true);
+          this._onDidChangeOpenSessions.fire(this.sessions.openSessions());
+          return { tab: ct.tab, groupIndex: ct.groupIndex, tabIndex: ct.tabIndex };
         }
       }
     }
@@ -266,37 +290,16 @@ export class TabSessionTracker {
   }
 
   /**
-   * Try to focus an existing Claude Code tab.
-   * Uses editor group focus + tab index navigation.
+   * Focus an existing Claude Code tab, in any editor group or auxiliary window.
    */
-  async focusTab(info: {
-    tab: vscode.Tab;
-    groupIndex: number;
-    tabIndex: number;
-  }): Promise<boolean> {
-    try {
-      // Focus the editor group containing the tab
-      const groupCommands = [
-        "workbench.action.focusFirstEditorGroup",
-        "workbench.action.focusSecondEditorGroup",
-        "workbench.action.focusThirdEditorGroup",
-      ];
-
-      if (info.groupIndex < groupCommands.length) {
-        await vscode.commands.executeCommand(
-          groupCommands[info.groupIndex]
-        );
-      }
-
-      // Navigate to the specific tab by index (0-based)
-      await vscode.commands.executeCommand(
-        "workbench.action.openEditorAtIndex",
-        info.tabIndex
-      );
-
-      return true;
-    } catch {
-      return false;
-    }
+  async focusTab(info: TabLocation): Promise<boolean> {
+    return focusTab(
+      {
+        groups: () => vscode.window.tabGroups.all,
+        executeCommand: (command, ...args) => vscode.commands.executeCommand(command, ...args),
+      },
+      info.tab,
+      (message) => log.appendLine(message)
+    );
   }
 }
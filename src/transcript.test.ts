@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTranscript,
+  renderTranscriptText,
+  renderTranscriptMarkdown,
+  toolResultText,
+} from "./transcript";
+
+// --- record builders ---
+
+function toLines(records: unknown[]): string[] {
+  return records.map((r) => JSON.stringify(r));
+}
+
+function userMsg(content: string | unknown[], opts: { isMeta?: boolean; isSidechain?: boolean } = {}) {
+  return {
+    type: "user",
+    sessionId: "sess-1",
+    timestamp: "2026-02-19T00:00:00Z",
+    ...(opts.isMeta ? { isMeta: true } : {}),
+    ...(opts.isSidechain ? { isSidechain: true } : {}),
+    message: { role: "user", content },
+  };
+}
+
+function assistantMsg(id: string, content: unknown[], opts: { isSidechain?: boolean } = {}) {
+  return {
+    type: "assistant",
+    sessionId: "sess-1",
+    timestamp: "2026-02-19T00:00:01Z",
+    ...(opts.isSidechain ? { isSidechain: true } : {}),
+    message: { role: "assistant", id, model: "claude-opus", content },
+  };
+}
+
+function toolUse(id: string, name: string, input: unknown) {
+  return { type: "tool_use", id, name, input };
+}
+
+function toolResult(toolUseId: string, content: unknown, isError = false) {
+  return { type: "tool_result", tool_use_id: toolUseId, content, ...(isError ? { is_error: true } : {}) };
+}
+
+describe("parseTranscript", () => {
+  it("merges records of one streamed assistant message", () => {
+    const turns = parseTranscript(toLines([
+      userMsg("list files"),
+      assistantMsg("msg_1", [{ type: "text", text: "Sure." }]),
+      assistantMsg("msg_1", [toolUse("tu_1", "Bash", { command: "ls" })]),
+      userMsg([toolResult("tu_1", "a.txt")]),
+      assistantMsg("msg_2", [{ type: "text", text: "One file." }]),
+    ]));
+
+    expect(turns.map((t) => t.role)).toEqual(["user", "assistant", "user", "assistant"]);
+    expect(turns[1].blocks).toEqual([
+      { type: "text", text: "Sure." },
+      { type: "tool_use", id: "tu_1", name: "Bash", input: { command: "ls" } },
+    ]);
+    expect(turns[2].blocks).toEqual([
+      { type: "tool_result", toolName: "Bash", content: "a.txt", isError: false },
+    ]);
+  });
+
+  it("skips non-conversation records, invalid JSON and empty content", () => {
+    const turns = parseTranscript([
+      JSON.stringify({ type: "file-history-snapshot" }),
+      "not json",
+      "",
+      JSON.stringify(userMsg("")),
+      JSON.stringify(userMsg("hello")),
+    ]);
+    expect(turns).toHaveLength(1);
+    expect(turns[0].blocks).toEqual([{ type: "text", text: "hello" }]);
+  });
+
+  it("keeps sidechain and meta flags", () => {
+    const turns = parseTranscript(toLines([
+      userMsg("meta", { isMeta: true }),
+      userMsg("sub task", { isSidechain: true }),
+    ]));
+    expect(turns.map((t) => [t.isMeta, t.isSidechain])).toEqual([[true, false], [false, true]]);
+  });
+});
+
+describe("toolResultText", () => {
+  it("flattens nested text blocks", () => {
+    expect(toolResultText([{ type: "text", text: "a" }, { type: "image" }])).toBe("a\n[image]");
+    expect(toolResultText(undefined)).toBe("");
+  });
+});
+
+describe("renderTranscriptText", () => {
+  it("renders turns with collapsed tool calls and results", () => {
+    const turns = parseTranscript(toLines([
+      userMsg("list files"),
+      assistantMsg("msg_1", [toolUse("tu_1", "Bash", { command: "ls" })]),
+      userMsg([toolResult("tu_1", "a.txt\nb.txt", true)]),
+    ]));
+    const { text, foldingRanges, collapsedLines } = renderTranscriptText(turns, {
+      title: "List files",
+      sessionId: "sess-1",
+    });
+    const lines = text.split("\n");
+
+    expect(lines[0]).toBe("List files");
+    expect(lines[1]).toBe("Session: sess-1");
+    expect(text).toContain("USER");
+    expect(text).toContain("TOOL RESULT");
+
+    const toolLine = lines.indexOf("▸ Bash");
+    const resultLine = lines.indexOf("◂ Bash (error)");
+    expect(lines.slice(toolLine + 1, toolLine + 4)).toEqual([
+      "    {",
+      '      "command": "ls"',
+      "    }",
+    ]);
+    expect(foldingRanges).toContainEqual({ start: toolLine, end: toolLine + 3 });
+    expect(foldingRanges).toContainEqual({ start: resultLine, end: resultLine + 2 });
+    expect(collapsedLines).toEqual([toolLine, resultLine]);
+  });
+
+  it("wraps consecutive sidechain turns in one foldable section", () => {
+    const turns = parseTranscript(toLines([
+      userMsg("main"),
+      userMsg("sub prompt", { isSidechain: true }),
+      assistantMsg("msg_s", [{ type: "text", text: "sub answer" }], { isSidechain: true }),
+      assistantMsg("msg_2", [{ type: "text", text: "back in main" }]),
+    ]));
+    const { text, foldingRanges, collapsedLines } = renderTranscriptText(turns, { title: "t" });
+    const lines = text.split("\n");
+
+    const start = lines.findIndex((l) => l.includes("sub-agent") && !l.includes("end"));
+    const end = lines.findIndex((l) => l.includes("end of sub-agent"));
+    expect(start).toBeGreaterThan(0);
+    expect(end).toBeGreaterThan(start);
+    expect(lines.indexOf("back in main")).toBeGreaterThan(end);
+    expect(foldingRanges).toContainEqual({ start, end });
+    expect(collapsedLines).not.toContain(start);
+  });
+});
+
+describe("renderTranscriptMarkdown", () => {
+  const records = [
+    userMsg("meta note", { isMeta: true }),
+    userMsg("run the tests"),
+    assistantMsg("msg_1", [{ type: "text", text: "Running." }, toolUse("tu_1", "Bash", { command: "npm test" })]),
+    userMsg([toolResult("tu_1", "use ```js fences```")]),
+    userMsg("sub prompt", { isSidechain: true }),
+    assistantMsg("msg_2", [{ type: "text", text: "All green." }]),
+  ];
+
+  it("renders a heading per turn and fenced tool input/output", () => {
+    const md = renderTranscriptMarkdown(
+      parseTranscript(toLines(records)),
+      { title: "Tests", sessionId: "sess-1", gitBranch: "main" },
+      { includeSidechain: false, includeMeta: false }
+    );
+    const lines = md.split("\n");
+
+    expect(lines[0]).toBe("# Tests");
+    expect(md).toContain("- Session: `sess-1`");
+    expect(md).toContain("- Branch: `main`");
+    expect(lines.filter((l) => l.startsWith("## User"))).toHaveLength(1);
+    expect(lines.filter((l) => l.startsWith("## Assistant"))).toHaveLength(2);
+    expect(md).toContain('**Tool: Bash**\n\n```json\n{\n  "command": "npm test"\n}\n```');
+    // Fence is longer than the backtick run inside the output
+    expect(md).toContain("**Result: Bash**\n\n````\nuse ```js fences```\n````");
+    expect(md).not.toContain("meta note");
+    expect(md).not.toContain("sub prompt");
+    expect(md.endsWith("All green.\n")).toBe(true);
+  });
+
+  it("includes sidechain and meta turns when asked, tagged in the heading", () => {
+    const md = renderTranscriptMarkdown(
+      parseTranscript(toLines(records)),
+      { title: "Tests" },
+      { includeSidechain: true, includeMeta: true }
+    );
+    expect(md).toMatch(/## User \(meta\).*\n\nmeta note/);
+    expect(md).toMatch(/## User \(sub-agent\).*\n\nsub prompt/);
+    expect(md).not.toContain("- Session:");
+  });
+});
@@ -0,0 +1,304 @@
+import * as fs from "fs";
+import { JnsonlMessage, ContentBlock } from "./types";
+
+export type TranscriptBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id?: string; name: string; input: unknown }
+  | { type: "tool_result"; toolName?: string; content: string; isError: boolean };
+
+export interface TranscriptTurn {
+  role: "user" | "assistant";
+  timestamp?: string;
+  isSidechain: boolean;
+  isMeta: boolean;
+  model?: string;
+  blocks: TranscriptBlock[];
+}
+
+/**
+ * Flatten tool_result content (string or nested text blocks) into plain text.
+ */
+export function toolResultText(content: string | ContentBlock[] | undefined): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .map((block) => (block.type === "text" && block.text ? block.text : `[${block.type}]`))
+    .join("\n");
+}
+
+/**
+ * Convert JSONL records into conversation turns.
+ * Consecutive assistant records of one streamed message (same message id)
+ * are merged into a single turn, and tool results are labelled with the
+ * name of the tool that produced them.
+ */
+export function parseTranscript(lines: string[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  const toolNames = new Map<string, string>();
+  let lastAssistantId: string | undefined;
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    let obj: JnsonlMessage;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (obj.type !== "user" && obj.type !== "assistant") {
+      continue;
+    }
+
+    const content = obj.message?.content;
+    const blocks: TranscriptBlock[] = [];
+    if (typeof content === "string") {
+      if (content) {
+        blocks.push({ type: "text", text: content });
+      }
+    } else if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block.type === "text" && block.text) {
+          blocks.push({ type: "text", text: block.text });
+        } else if (block.type === "tool_use" && block.name) {
+          if (block.id) {
+            toolNames.set(block.id, block.name);
+          }
+          blocks.push({ type: "tool_use", id: block.id, name: block.name, input: block.input });
+        } else if (block.type === "tool_result") {
+          blocks.push({
+            type: "tool_result",
+            toolName: block.tool_use_id ? toolNames.get(block.tool_use_id) : undefined,
+            content: toolResultText(block.content),
+            isError: block.is_error === true,
+          });
+        }
+      }
+    }
+    if (blocks.length === 0) {
+      continue;
+    }
+
+    const id = obj.type === "assistant" ? obj.message?.id : undefined;
+    const prev = turns[turns.length - 1];
+    if (id && id === lastAssistantId && prev?.role === "assistant") {
+      prev.blocks.push(...blocks);
+      continue;
+    }
+    lastAssistantId = id;
+
+    turns.push({
+      role: obj.type,
+      timestamp: obj.timestamp,
+      isSidechain: obj.isSidechain === true,
+      isMeta: obj.isMeta === true,
+      model: obj.type === "assistant" ? obj.message?.model : undefined,
+      blocks,
+    });
+  }
+  return turns;
+}
+
+export function readTranscript(filePath: string): TranscriptTurn[] {
+  return parseTranscript(fs.readFileSync(filePath, "utf8").split("\n"));
+}
+
+/**
+ * Whether a turn carries only tool results (the "user" side of a tool call).
+ */
+export function isToolResultTurn(turn: TranscriptTurn): boolean {
+  return turn.blocks.every((b) => b.type === "tool_result");
+}
+
+export function formatToolInput(input: unknown): string {
+  if (input === undefined) {
+    return "";
+  }
+  return typeof input === "string" ? input : JSON.stringify(input, null, 2);
+}
+
+export interface TranscriptHeader {
+  title: string;
+  sessionId?: string;
+  model?: string;
+  gitBranch?: string;
+}
+
+export interface RenderedTranscript {
+  text: string;
+  foldingRanges: { start: number; end: number }[];
+  collapsedLines: number[]; // start lines of ranges that open collapsed (tool calls/results)
+}
+
+const RULE = "────────";
+
+function formatTimestamp(timestamp: string | undefined): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : "";
+}
+
+function indent(text: string): string[] {
+  return text.split("\n").map((l) => "    " + l);
+}
+
+/**
+ * Render turns as a plain-text document for the read-only viewer,
+ * with folding ranges for tool calls, tool results and sidechain sections.
+ */
+export function renderTranscriptText(
+  turns: TranscriptTurn[],
+  header: TranscriptHeader
+): RenderedTranscript {
+  const lines: string[] = [];
+  const foldingRanges: { start: number; end: number }[] = [];
+  const collapsedLines: number[] = [];
+
+  const addFold = (start: number, collapsed: boolean) => {
+    const end = lines.length - 1;
+    if (end > start) {
+      foldingRanges.push({ start, end });
+      if (collapsed) {
+        collapsedLines.push(start);
+      }
+    }
+  };
+
+  lines.push(header.title);
+  const info = [
+    header.sessionId && `Session: ${header.sessionId}`,
+    header.model && `Model: ${header.model}`,
+    header.gitBranch && `Branch: ${header.gitBranch}`,
+  ].filter(Boolean);
+  if (info.length > 0) {
+    lines.push(info.join(" · "));
+  }
+
+  let sidechainStart: number | undefined;
+  const closeSidechain = () => {
+    if (sidechainStart !== undefined) {
+      lines.push(`${RULE} end of sub-agent ${RULE}`);
+      addFold(sidechainStart, false);
+      sidechainStart = undefined;
+    }
+  };
+
+  for (const turn of turns) {
+    if (turn.isSidechain && sidechainStart === undefined) {
+      lines.push("");
+      sidechainStart = lines.length;
+      lines.push(`${RULE} sub-agent ${RULE}`);
+    } else if (!turn.isSidechain) {
+      closeSidechain();
+    }
+
+    const label = isToolResultTurn(turn)
+      ? "TOOL RESULT"
+      : turn.role === "user"
+        ? turn.isMeta ? "USER (meta)" : "USER"
+        : "ASSISTANT";
+    const time = formatTimestamp(turn.timestamp);
+    lines.push("");
+    lines.push(`${RULE} ${label}${time ? ` · ${time}` : ""} ${RULE}`);
+
+    for (const block of turn.blocks) {
+      if (block.type === "text") {
+        lines.push(...block.text.split("\n"));
+        continue;
+      }
+      const start = lines.length;
+      if (block.type === "tool_use") {
+        lines.push(`▸ ${block.name}`);
+        const input = formatToolInput(block.input);
+        if (input) {
+          lines.push(...indent(input));
+        }
+      } else {
+        lines.push(`◂ ${block.toolName ?? "result"}${block.isError ? " (error)" : ""}`);
+        if (block.content) {
+          lines.push(...indent(block.content));
+        }
+      }
+      addFold(start, true);
+    }
+  }
+  closeSidechain();
+
+  return { text: lines.join("\n") + "\n", foldingRanges, collapsedLines };
+}
+
+export interface ExportOptions {
+  includeSidechain: boolean;
+  includeMeta: boolean;
+}
+
+/**
+ * Fence that can't be closed by backtick runs inside the content.
+ */
+function fence(content: string, lang: string = ""): string[] {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map((m) => m.length));
+  const ticks = "`".repeat(longest + 1);
+  return [ticks + lang, content, ticks];
+}
+
+export function filterTurns(turns: TranscriptTurn[], options: ExportOptions): TranscriptTurn[] {
+  return turns.filter(
+    (t) => (options.includeSidechain || !t.isSidechain) && (options.includeMeta || !t.isMeta)
+  );
+}
+
+/**
+ * Render turns as Markdown: one heading per turn, tool inputs and
+ * outputs in fenced blocks. Tool results are attached to the preceding
+ * assistant turn instead of getting their own heading.
+ */
+export function renderTranscriptMarkdown(
+  turns: TranscriptTurn[],
+  header: TranscriptHeader,
+  options: ExportOptions
+): string {
+  const lines: string[] = [`# ${header.title}`, ""];
+  const info = [
+    header.sessionId && `- Session: \`${header.sessionId}\``,
+    header.model && `- Model: ${header.model}`,
+    header.gitBranch && `- Branch: \`${header.gitBranch}\``,
+  ].filter((l): l is string => Boolean(l));
+  if (info.length > 0) {
+    lines.push(...info, "");
+  }
+
+  for (const turn of filterTurns(turns, options)) {
+    if (!isToolResultTurn(turn)) {
+      const role = turn.role === "user" ? "User" : "Assistant";
+      const tags = [turn.isSidechain && "sub-agent", turn.isMeta && "meta"].filter(Boolean);
+      const time = formatTimestamp(turn.timestamp);
+      lines.push(
+        `## ${role}${tags.length > 0 ? ` (${tags.join(", ")})` : ""}${time ? ` · ${time}` : ""}`,
+        ""
+      );
+    }
+
+    for (const block of turn.blocks) {
+      if (block.type === "text") {
+        lines.push(block.text, "");
+      } else if (block.type === "tool_use") {
+        lines.push(`**Tool: ${block.name}**`, "");
+        const input = formatToolInput(block.input);
+        if (input) {
+          lines.push(...fence(input, typeof block.input === "string" ? "" : "json"), "");
+        }
+      } else {
+        lines.push(
+          `**Result${block.toolName ? `: ${block.toolName}` : ""}${block.isError ? " (error)" : ""}**`,
+          ""
+        );
+        lines.push(...fence(block.content), "");
+      }
+    }
+  }
+
+  return lines.join("\n").replace(/\n+$/, "\n");
+}
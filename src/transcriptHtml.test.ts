@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { parseTranscript } from "./transcript";
+import {
+  escapeHtml,
+  highlightCode,
+  renderMessageText,
+  renderTranscriptHtml,
+} from "./transcriptHtml";
+
+function toLines(records: unknown[]): string[] {
+  return records.map((r) => JSON.stringify(r));
+}
+
+function userMsg(content: string | unknown[], opts: { isSidechain?: boolean } = {}) {
+  return {
+    type: "user",
+    sessionId: "sess-1",
+    timestamp: "2026-02-19T00:00:00Z",
+    ...(opts.isSidechain ? { isSidechain: true } : {}),
+    message: { role: "user", content },
+  };
+}
+
+function assistantMsg(id: string, content: unknown[]) {
+  return {
+    type: "assistant",
+    sessionId: "sess-1",
+    timestamp: "2026-02-19T00:00:01Z",
+    message: { role: "assistant", id, content },
+  };
+}
+
+describe("escapeHtml", () => {
+  it("escapes markup characters", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("highlightCode", () => {
+  it("wraps keywords, strings, numbers and comments", () => {
+    expect(highlightCode('const x = "a<b"; // note', "ts")).toBe(
+      '<span class="k">const</span> x = <span class="s">&quot;a&lt;b&quot;</span>; <span class="c">// note</span>'
+    );
+    expect(highlightCode("return 42", "")).toBe(
+      '<span class="k">return</span> <span class="n">42</span>'
+    );
+  });
+
+  it("uses # comments for shell-like languages", () => {
+    expect(highlightCode("ls # list", "bash")).toBe('ls <span class="c"># list</span>');
+    expect(highlightCode("a # b", "ts")).toBe("a # b");
+  });
+});
+
+describe("renderMessageText", () => {
+  it("renders paragraphs, inline code and highlighted fences", () => {
+    const html = renderMessageText("Run `npm test`:\n\n```bash\nnpm test # all\n```\nDone.");
+    expect(html).toBe(
+      "<p>Run <code>npm test</code>:</p>\n" +
+        '<pre><code>npm test <span class="c"># all</span></code></pre>\n' +
+        "<p>Done.</p>"
+    );
+  });
+});
+
+describe("renderTranscriptHtml", () => {
+  const turns = parseTranscript(toLines([
+    userMsg("fix the <bug>\nsecond line"),
+    assistantMsg("msg_1", [
+      { type: "text", text: "Looking." },
+      { type: "tool_use", id: "tu_1", name: "Bash", input: { command: "grep -r bug" } },
+    ]),
+    userMsg([{ type: "tool_result", tool_use_id: "tu_1", content: "<none>", is_error: true }]),
+    userMsg("sub prompt", { isSidechain: true }),
+    userMsg("thanks"),
+  ]));
+
+  it("produces a self-contained page with header, TOC and collapsible tools", () => {
+    const html = renderTranscriptHtml(
+      turns,
+      { title: "Fix <bug>", sessionId: "sess-1", model: "claude-opus", gitBranch: "main" },
+      { includeSidechain: false, includeMeta: false }
+    );
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<title>Fix &lt;bug&gt;</title>");
+    expect(html).toContain("<dt>Model</dt><dd>claude-opus</dd>");
+    expect(html).toContain("<dt>Branch</dt><dd>main</dd>");
+    expect(html).not.toContain("<dt>Last activity</dt>");
+    // TOC lists user prompts only (first line), linking to their turn
+    expect(html).toContain('<li><a href="#turn-0">fix the &lt;bug&gt;</a></li>');
+    expect(html).toContain('<li><a href="#turn-3">thanks</a></li>');
+    expect(html.match(/<li>/g)).toHaveLength(2);
+    expect(html).toContain('<details class="tool-use"><summary>▸ Bash</summary>');
+    expect(html).toContain('<details class="tool-result error"><summary>◂ Bash (error)</summary><pre><code>&lt;none&gt;</code></pre>');
+    expect(html).not.toContain("sub prompt");
+    // No external assets
+    expect(html).not.toMatch(/(src|href)="(https?:)?\/\//);
+  });
+
+  it("includes sidechain turns when asked", () => {
+    const html = renderTranscriptHtml(
+      turns,
+      { title: "t" },
+      { includeSidechain: true, includeMeta: false }
+    );
+    expect(html).toContain('<section class="turn user sidechain"');
+    expect(html).toContain("User (sub-agent)");
+  });
+});
@@ -0,0 +1,226 @@
+import {
+  TranscriptTurn,
+  TranscriptHeader,
+  ExportOptions,
+  filterTurns,
+  formatToolInput,
+  isToolResultTurn,
+} from "./transcript";
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const KEYWORDS = new Set([
+  "async", "await", "break", "case", "catch", "class", "const", "continue",
+  "def", "default", "do", "elif", "else", "enum", "export", "extends", "false",
+  "finally", "fn", "for", "from", "func", "function", "if", "impl", "import",
+  "in", "interface", "let", "match", "mut", "new", "nil", "None", "null",
+  "package", "pub", "return", "self", "static", "struct", "switch", "this",
+  "throw", "true", "True", "False", "try", "type", "undefined", "var", "while",
+  "with", "yield",
+]);
+
+const HASH_COMMENT_LANGS = new Set([
+  "bash", "sh", "shell", "zsh", "python", "py", "ruby", "rb", "yaml", "yml",
+  "toml", "dockerfile", "makefile",
+]);
+
+/**
+ * Minimal language-agnostic highlighter: strings, comments, numbers and
+ * common keywords. Runs at export time so the HTML needs no script for it.
+ */
+export function highlightCode(code: string, lang: string = ""): string {
+  const comment = HASH_COMMENT_LANGS.has(lang.toLowerCase())
+    ? "#[^\\n]*"
+    : "\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/";
+  const pattern = new RegExp(
+    `(${comment})|("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\`)|(\\b\\d+(?:\\.\\d+)?\\b)|([A-Za-z_]\\w*)`,
+    "g"
+  );
+
+  let html = "";
+  let last = 0;
+  for (const m of code.matchAll(pattern)) {
+    const index = m.index ?? 0;
+    html += escapeHtml(code.slice(last, index));
+    const [token, isComment, isString, isNumber, word] = m;
+    const cls = isComment
+      ? "c"
+      : isString
+        ? "s"
+        : isNumber
+          ? "n"
+          : word && KEYWORDS.has(word)
+            ? "k"
+            : undefined;
+    html += cls ? `<span class="${cls}">${escapeHtml(token)}</span>` : escapeHtml(token);
+    last = index + token.length;
+  }
+  return html + escapeHtml(code.slice(last));
+}
+
+function renderInline(text: string): string {
+  return escapeHtml(text).replace(/`([^`\n]+)`/g, "<code>$1</code>");
+}
+
+/**
+ * Render message text: fenced code blocks are highlighted, everything
+ * else becomes paragraphs with inline code.
+ */
+export function renderMessageText(text: string): string {
+  const parts: string[] = [];
+  const fencePattern = /^(`{3,})([\w+-]*)[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm;
+  let last = 0;
+  const pushProse = (prose: string) => {
+    for (const para of prose.split(/\n{2,}/)) {
+      if (para.trim()) {
+        parts.push(`<p>${renderInline(para.trim()).replace(/\n/g, "<br>")}</p>`);
+      }
+    }
+  };
+  for (const m of text.matchAll(fencePattern)) {
+    pushProse(text.slice(last, m.index));
+    const code = m[3].replace(/\n$/, "");
+    parts.push(`<pre><code>${highlightCode(code, m[2])}</code></pre>`);
+    last = (m.index ?? 0) + m[0].length;
+  }
+  pushProse(text.slice(last));
+  return parts.join("\n");
+}
+
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; background: #fff; line-height: 1.5; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1em; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2em 1em; font-size: 0.9em; }
+header dt { color: #656d76; }
+nav ol { padding-left: 1.5em; }
+nav a { color: #0969da; text-decoration: none; }
+.turn { border: 1px solid #d0d7de; border-radius: 6px; margin: 1em 0; padding: 0.5em 1em; }
+.turn.user { background: #f6f8fa; }
+.turn.sidechain { margin-left: 2em; border-style: dashed; }
+.role { font-weight: 600; font-size: 0.85em; color: #656d76; }
+.role time { font-weight: normal; margin-left: 0.5em; }
+details { border: 1px solid #d0d7de; border-radius: 4px; margin: 0.5em 0; }
+details summary { cursor: pointer; padding: 0.3em 0.6em; background: #f6f8fa; font-family: monospace; font-size: 0.9em; }
+details.error summary { color: #cf222e; }
+pre { background: #f6f8fa; padding: 0.8em; overflow-x: auto; margin: 0; font-size: 0.85em; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+p code { background: #eff1f3; padding: 0.1em 0.3em; border-radius: 3px; }
+.k { color: #cf222e; } .s { color: #0a3069; } .c { color: #6e7781; font-style: italic; } .n { color: #0550ae; }
+.toolbar { margin: 1em 0; }
+@media (prefers-color-scheme: dark) {
+  body { color: #e6edf3; background: #0d1117; }
+  .turn.user, details summary, pre { background: #161b22; }
+  .turn, details, header { border-color: #30363d; }
+  p code { background: #343942; }
+  nav a { color: #4493f8; }
+  .k { color: #ff7b72; } .s { color: #a5d6ff; } .c { color: #8b949e; } .n { color: #79c0ff; }
+}
+`;
+
+const SCRIPT = `
+document.querySelectorAll("[data-toggle]").forEach(function (button) {
+  button.addEventListener("click", function () {
+    var open = button.getAttribute("data-toggle") === "open";
+    document.querySelectorAll("details").forEach(function (d) { d.open = open; });
+  });
+});
+`;
+
+export interface HtmlHeader extends TranscriptHeader {
+  timestamp?: Date;
+}
+
+/**
+ * Render turns as a single self-contained HTML page (inline CSS/JS, no
+ * network assets) with collapsible tool calls/results and a table of
+ * contents of user prompts.
+ */
+export function renderTranscriptHtml(
+  turns: TranscriptTurn[],
+  header: HtmlHeader,
+  options: ExportOptions
+): string {
+  const body: string[] = [];
+  const toc: string[] = [];
+
+  filterTurns(turns, options).forEach((turn, i) => {
+    const toolResultOnly = isToolResultTurn(turn);
+    const classes = ["turn", turn.role, turn.isSidechain ? "sidechain" : ""].filter(Boolean);
+    const id = `turn-${i}`;
+    const role = toolResultOnly ? "Tool result" : turn.role === "user" ? "User" : "Assistant";
+    const tags = [turn.isSidechain && "sub-agent", turn.isMeta && "meta"].filter(Boolean);
+    const time = turn.timestamp
+      ? `<time datetime="${escapeHtml(turn.timestamp)}">${escapeHtml(new Date(turn.timestamp).toLocaleString())}</time>`
+      : "";
+
+    if (turn.role === "user" && !toolResultOnly && !turn.isMeta && !turn.isSidechain) {
+      const first = turn.blocks.find((b) => b.type === "text");
+      const label = first?.type === "text" ? first.text.split("\n")[0].slice(0, 80) : role;
+      toc.push(`<li><a href="#${id}">${escapeHtml(label)}</a></li>`);
+    }
+
+    body.push(`<section class="${classes.join(" ")}" id="${id}">`);
+    body.push(`<div class="role">${role}${tags.length > 0 ? ` (${tags.join(", ")})` : ""}${time}</div>`);
+    for (const block of turn.blocks) {
+      if (block.type === "text") {
+        body.push(renderMessageText(block.text));
+      } else if (block.type === "tool_use") {
+        const input = formatToolInput(block.input);
+        const lang = typeof block.input === "string" ? "" : "json";
+        body.push(
+          `<details class="tool-use"><summary>▸ ${escapeHtml(block.name)}</summary>` +
+            `<pre><code>${highlightCode(input, lang)}</code></pre></details>`
+        );
+      } else {
+        const label = `${block.toolName ?? "Result"}${block.isError ? " (error)" : ""}`;
+        body.push(
+          `<details class="tool-result${block.isError ? " error" : ""}"><summary>◂ ${escapeHtml(label)}</summary>` +
+            `<pre><code>${escapeHtml(block.content)}</code></pre></details>`
+        );
+      }
+    }
+    body.push("</section>");
+  });
+
+  const info: [string, string | undefined][] = [
+    ["Session", header.sessionId],
+    ["Model", header.model],
+    ["Branch", header.gitBranch],
+    ["Last activity", header.timestamp?.toLocaleString()],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(header.title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(header.title)}</h1>
+<dl>
+${info
+  .filter(([, value]) => value)
+  .map(([key, value]) => `<dt>${key}</dt><dd>${escapeHtml(value!)}</dd>`)
+  .join("\n")}
+</dl>
+</header>
+${toc.length > 0 ? `<nav><h2>Prompts</h2><ol>\n${toc.join("\n")}\n</ol></nav>` : ""}
+<div class="toolbar"><button data-toggle="open">Expand all</button> <button data-toggle="close">Collapse all</button></div>
+<main>
+${body.join("\n")}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
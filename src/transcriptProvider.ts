@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { ConversationMeta } from "./types";
+import { parseTranscript, renderTranscriptText, RenderedTranscript } from "./transcript";
+import { subAgentLines } from "./subAgents";
+
+export const TRANSCRIPT_SCHEME = "claude-transcript";
+
+/**
+ * Read-only documents rendering a conversation JSONL as a transcript.
+ * URI: claude-transcript:/<title>.transcript?file=<jsonl path>
+ * With `agent=<tool_use id>` only that sub-agent's sidechain is shown.
+ */
+export class TranscriptProvider
+  implements vscode.TextDocumentContentProvider, vscode.FoldingRangeProvider, vscode.Disposable
+{
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  // uri → last rendering of each open transcript (folding ranges must match the served text)
+  private rendered = new Map<string, RenderedTranscript>();
+  private closeListener = vscode.workspace.onDidCloseTextDocument((doc) => {
+    this.rendered.delete(doc.uri.toString());
+  });
+
+  dispose(): void {
+    this.closeListener.dispose();
+    this._onDidChange.dispose();
+  }
+
+  static uriFor(meta: ConversationMeta, agent?: { toolUseId: string; description: string }): vscode.Uri {
+    // Path is only used for the tab label — keep it filename-safe
+    const label = (agent?.description ?? meta.title).replace(/[\\/\r\n]+/g, " ").slice(0, 40);
+    return vscode.Uri.from({
+      scheme: TRANSCRIPT_SCHEME,
+      path: `/${label}.transcript`,
+      query: new URLSearchParams({
+        file: meta.filePath,
+        title: meta.title,
+        session: meta.sessionId,
+        model: meta.model ?? "",
+        branch: meta.gitBranch ?? "",
+        ...(agent ? { agent: agent.toolUseId } : {}),
+      }).toString(),
+    });
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const params = new URLSearchParams(uri.query);
+    const filePath = params.get("file") ?? "";
+    const agent = params.get("agent");
+    let result: RenderedTranscript;
+    try {
+      let lines = fs.readFileSync(filePath, "utf8").split("\n");
+      if (agent) {
+        lines = subAgentLines(lines, agent);
+      }
+      result = renderTranscriptText(parseTranscript(lines), {
+        title: agent ? `${params.get("title") ?? ""} — sub-agent` : params.get("title") ?? "",
+        sessionId: params.get("session") || undefined,
+        model: params.get("model") || undefined,
+        gitBranch: params.get("branch") || undefined,
+      });
+    } catch (err) {
+      result = {
+        text: `Failed to read ${filePath}: ${err}\n`,
+        foldingRanges: [],
+        collapsedLines: [],
+      };
+    }
+    this.rendered.set(uri.toString(), result);
+    return result.text;
+  }
+
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    const result = this.rendered.get(document.uri.toString());
+    return (result?.foldingRanges ?? []).map(
+      (r) => new vscode.FoldingRange(r.start, r.end, vscode.FoldingRangeKind.Region)
+    );
+  }
+
+  /**
+   * Re-render an open transcript (e.g. after the session file grew).
+   */
+  update(uri: vscode.Uri): void {
+    this._onDidChange.fire(uri);
+  }
+
+  /**
+   * Open the transcript and collapse its tool calls and results.
+   */
+  async show(meta: ConversationMeta, agent?: { toolUseId: string; description: string }): Promise<void> {
+    const uri = TranscriptProvider.uriFor(meta, agent);
+    const previous = this.rendered.get(uri.toString());
+    if (previous && this.provideTextDocumentContent(uri) !== previous.text) {
+      // Already open with older text: fold only once VSCode has fetched the
+      // new rendering, or the folds would not line up with the text
+      const refreshed = contentChanged(uri);
+      this.update(uri);
+      await refreshed;
+    }
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc, { preview: true });
+
+    const collapsed = this.rendered.get(uri.toString())?.collapsedLines ?? [];
+    if (collapsed.length > 0) {
+      await vscode.commands.executeCommand("editor.fold", {
+        selectionLines: collapsed,
+        levels: 1,
+      });
+    }
+  }
+}
+
+const CONTENT_CHANGE_TIMEOUT_MS = 2000;
+
+/**
+ * Resolves when the open document at `uri` next changes (or after a timeout).
+ */
+function contentChanged(uri: vscode.Uri): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      listener.dispose();
+      resolve();
+    };
+    const timer = setTimeout(done, CONTENT_CHANGE_TIMEOUT_MS);
+    const listener = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.document.uri.toString() === uri.toString()) {
+        done();
+      }
+    });
+  });
+}
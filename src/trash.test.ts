@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  moveToTrash,
+  listDeleted,
+  restoreDeleted,
+  purgeDeleted,
+  purgeExpired,
+  TRASH_DIR_NAME,
+} from "./trash";
+import { resolveDataDirs, setClaudeDataDirs } from "./dataDirs";
+import { isPinned } from "./pinManager";
+
+// --- helpers ---
+
+const tmpDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "trash-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function toJsonl(lines: unknown[]): string {
+  return lines.map((l) => JSON.stringify(l)).join("\n") + "\n";
+}
+
+/**
+ * A data directory with one project holding the given sessions.
+ */
+function createProject(sessions: { id: string; title: string }[]): { dataDir: string; projectDir: string } {
+  const dataDir = createTempDir();
+  setClaudeDataDirs(resolveDataDirs([dataDir]));
+  const projectDir = path.join(dataDir, "projects", "-home-me-app");
+  fs.mkdirSync(projectDir, { recursive: true });
+  for (const { id, title } of sessions) {
+    fs.writeFileSync(
+      path.join(projectDir, `${id}.jsonl`),
+      toJsonl([
+        {
+          type: "user",
+          sessionId: id,
+          timestamp: "2026-02-19T00:00:00Z",
+          message: { role: "user", content: title },
+        },
+      ])
+    );
+  }
+  return { dataDir, projectDir };
+}
+
+afterEach(() => {
+  setClaudeDataDirs(resolveDataDirs(undefined));
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("moveToTrash / listDeleted", () => {
+  it("lists trashed sessions with their title, newest deletion first", () => {
+    const { projectDir } = createProject([
+      { id: "s1", title: "first session" },
+      { id: "s2", title: "second session" },
+    ]);
+    moveToTrash(path.join(projectDir, "s1.jsonl"), false, new Date("2026-03-01T00:00:00Z"));
+    moveToTrash(path.join(projectDir, "s2.jsonl"), true, new Date("2026-03-02T00:00:00Z"));
+
+    expect(fs.existsSync(path.join(projectDir, "s1.jsonl"))).toBe(false);
+    const deleted = listDeleted(projectDir);
+    expect(deleted.map((d) => [d.sessionId, d.title, d.wasPinned])).toEqual([
+      ["s2", "second session", true],
+      ["s1", "first session", false],
+    ]);
+    expect(deleted[1]).toMatchObject({
+      filePath: path.join(projectDir, TRASH_DIR_NAME, "s1.jsonl"),
+      originalPath: path.join(projectDir, "s1.jsonl"),
+      deletedAt: new Date("2026-03-01T00:00:00Z"),
+    });
+  });
+
+  it("lists files deleted without a manifest entry", () => {
+    const { projectDir } = createProject([]);
+    const trashDir = path.join(projectDir, TRASH_DIR_NAME);
+    fs.mkdirSync(trashDir);
+    fs.writeFileSync(
+      path.join(trashDir, "old.jsonl"),
+      toJsonl([{ type: "user", sessionId: "old", message: { role: "user", content: "legacy" } }])
+    );
+
+    expect(listDeleted(projectDir)).toMatchObject([{ sessionId: "old", title: "legacy", wasPinned: false }]);
+  });
+
+  it("returns nothing for a project without trash", () => {
+    const { projectDir } = createProject([{ id: "s1", title: "kept" }]);
+    expect(listDeleted(projectDir)).toEqual([]);
+  });
+});
+
+describe("restoreDeleted", () => {
+  it("moves the session back and re-pins it if it was pinned", () => {
+    const { projectDir } = createProject([{ id: "s1", title: "pinned one" }]);
+    moveToTrash(path.join(projectDir, "s1.jsonl"), true);
+    expect(isPinned("s1")).toBe(false);
+
+    restoreDeleted(listDeleted(projectDir)[0]);
+    expect(fs.existsSync(path.join(projectDir, "s1.jsonl"))).toBe(true);
+    expect(listDeleted(projectDir)).toEqual([]);
+    expect(isPinned("s1")).toBe(true);
+  });
+
+  it("refuses to overwrite a session file that exists again", () => {
+    const { projectDir } = createProject([{ id: "s1", title: "original" }]);
+    moveToTrash(path.join(projectDir, "s1.jsonl"), false);
+    fs.writeFileSync(path.join(projectDir, "s1.jsonl"), "newer\n");
+
+    expect(() => restoreDeleted(listDeleted(projectDir)[0])).toThrow("already exists");
+    expect(fs.readFileSync(path.join(projectDir, "s1.jsonl"), "utf8")).toBe("newer\n");
+    expect(listDeleted(projectDir)).toHaveLength(1);
+  });
+});
+
+describe("purgeDeleted / purgeExpired", () => {
+  it("deletes a trashed session permanently", () => {
+    const { projectDir } = createProject([{ id: "s1", title: "gone" }]);
+    moveToTrash(path.join(projectDir, "s1.jsonl"), false);
+
+    purgeDeleted(listDeleted(projectDir)[0]);
+    expect(listDeleted(projectDir)).toEqual([]);
+    expect(fs.existsSync(path.join(projectDir, TRASH_DIR_NAME, "s1.jsonl"))).toBe(false);
+  });
+
+  it("purges only sessions deleted longer ago than the limit", () => {
+    const { dataDir, projectDir } = createProject([
+      { id: "old", title: "old" },
+      { id: "recent", title: "recent" },
+    ]);
+    moveToTrash(path.join(projectDir, "old.jsonl"), false, new Date("2026-03-01T00:00:00Z"));
+    moveToTrash(path.join(projectDir, "recent.jsonl"), false, new Date("2026-03-25T00:00:00Z"));
+
+    const purged = purgeExpired([path.join(dataDir, "projects")], 14, new Date("2026-03-30T00:00:00Z"));
+    expect(purged).toBe(1);
+    expect(listDeleted(projectDir).map((d) => d.sessionId)).toEqual(["recent"]);
+  });
+
+  it("purges by the manifest date without parsing the sessions", () => {
+    const { dataDir, projectDir } = createProject([]);
+    const trashDir = path.join(projectDir, TRASH_DIR_NAME);
+    fs.mkdirSync(trashDir);
+    // Not a session listDeleted would show, but still purged when expired
+    fs.writeFileSync(path.join(trashDir, "garbled.jsonl"), "not json\n");
+    fs.writeFileSync(
+      path.join(trashDir, "deleted.json"),
+      JSON.stringify({ "garbled.jsonl": { deletedAt: Date.parse("2026-03-01T00:00:00Z"), wasPinned: false } })
+    );
+
+    expect(purgeExpired([path.join(dataDir, "projects")], 14, new Date("2026-03-30T00:00:00Z"))).toBe(1);
+    expect(fs.readdirSync(trashDir)).toEqual(["deleted.json"]);
+  });
+});
@@ -0,0 +1,185 @@
+import * as fs from "fs";
+import * as path from "path";
+import { readFileMetadata, listAllProjectDirs } from "./conversationParser";
+import { MetadataCache } from "./metadataCache";
+import { pinSession } from "./pinManager";
+
+/**
+ * Deleted sessions are moved into a `.bak` directory next to them, so they
+ * can be restored. A manifest there remembers when each file was deleted and
+ * whether it was pinned.
+ */
+export const TRASH_DIR_NAME = ".bak";
+const MANIFEST_FILE_NAME = "deleted.json";
+
+interface ManifestEntry {
+  deletedAt: number; // epoch ms
+  wasPinned: boolean;
+}
+
+type Manifest = Record<string, ManifestEntry>; // keyed by file name
+
+export interface DeletedConversation {
+  filePath: string; // location inside the trash directory
+  originalPath: string;
+  sessionId: string;
+  title: string;
+  timestamp: Date; // last modification of the session before it was deleted
+  deletedAt: Date;
+  wasPinned: boolean;
+}
+
+function trashDirOf(projectDirPath: string): string {
+  return path.join(projectDirPath, TRASH_DIR_NAME);
+}
+
+function readManifest(trashDir: string): Manifest {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(trashDir, MANIFEST_FILE_NAME), "utf8"));
+  } catch {
+    // missing or corrupted manifest, e.g. files deleted by an older version
+    return {};
+  }
+}
+
+function updateManifest(trashDir: string, update: (manifest: Manifest) => void): void {
+  const manifest = readManifest(trashDir);
+  update(manifest);
+  fs.writeFileSync(path.join(trashDir, MANIFEST_FILE_NAME), JSON.stringify(manifest, null, 2), "utf8");
+}
+
+/**
+ * Move a session file into its project's trash directory.
+ */
+export function moveToTrash(filePath: string, wasPinned: boolean, now: Date = new Date()): string {
+  const trashDir = trashDirOf(path.dirname(filePath));
+  fs.mkdirSync(trashDir, { recursive: true });
+  const fileName = path.basename(filePath);
+  const trashPath = path.join(trashDir, fileName);
+  fs.renameSync(filePath, trashPath);
+  updateManifest(trashDir, (manifest) => {
+    manifest[fileName] = { deletedAt: now.getTime(), wasPinned };
+  });
+  return trashPath;
+}
+
+interface TrashEntry {
+  filePath: string;
+  fileName: string;
+  deletedAt: Date;
+  wasPinned: boolean;
+}
+
+/**
+ * Files in a project's trash directory with their manifest data, without
+ * parsing them.
+ */
+function listTrash(projectDirPath: string): TrashEntry[] {
+  const trashDir = trashDirOf(projectDirPath);
+  let fileNames: string[];
+  try {
+    fileNames = fs.readdirSync(trashDir).filter((f) => f.endsWith(".jsonl"));
+  } catch {
+    return [];
+  }
+
+  const manifest = readManifest(trashDir);
+  const entries: TrashEntry[] = [];
+  for (const fileName of fileNames) {
+    const filePath = path.join(trashDir, fileName);
+    const entry = manifest[fileName];
+    let deletedAt = entry?.deletedAt;
+    if (deletedAt === undefined) {
+      try {
+        // Without a manifest entry, the rename that moved the file is the best guess
+        deletedAt = fs.statSync(filePath).ctimeMs;
+      } catch {
+        continue; // removed since the directory was read
+      }
+    }
+    entries.push({ filePath, fileName, deletedAt: new Date(deletedAt), wasPinned: entry?.wasPinned ?? false });
+  }
+  return entries;
+}
+
+/**
+ * Sessions in a project's trash directory, most recently deleted first.
+ * Titles come from the metadata cache when one is given.
+ */
+export function listDeleted(projectDirPath: string, cache?: MetadataCache): DeletedConversation[] {
+  const trash = listTrash(projectDirPath);
+  const deleted: DeletedConversation[] = [];
+  for (const { filePath, fileName, deletedAt, wasPinned } of trash) {
+    const meta = readFileMetadata(filePath, cache);
+    if (!meta) {
+      continue;
+    }
+    deleted.push({
+      filePath,
+      originalPath: path.join(projectDirPath, fileName),
+      sessionId: meta.sessionId ?? path.basename(fileName, ".jsonl"),
+      title: meta.customTitle || meta.title || path.basename(fileName, ".jsonl"),
+      timestamp: new Date(meta.mtimeMs),
+      deletedAt,
+      wasPinned,
+    });
+  }
+  cache?.prune(trashDirOf(projectDirPath), new Set(trash.map((t) => t.filePath)));
+  return deleted.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+/**
+ * Move a deleted session back into its project, re-pinning it if it was
+ * pinned. Refuses to overwrite a session file that exists again.
+ */
+export function restoreDeleted(entry: DeletedConversation): void {
+  if (fs.existsSync(entry.originalPath)) {
+    throw new Error(`${path.basename(entry.originalPath)} already exists in the project`);
+  }
+  fs.renameSync(entry.filePath, entry.originalPath);
+  forget(entry.filePath);
+  if (entry.wasPinned) {
+    pinSession(entry.sessionId);
+  }
+}
+
+/**
+ * Delete a trashed session file permanently.
+ */
+export function purgeDeleted(entry: Pick<DeletedConversation, "filePath">): void {
+  fs.rmSync(entry.filePath, { force: true });
+  forget(entry.filePath);
+}
+
+function forget(trashPath: string): void {
+  try {
+    updateManifest(path.dirname(trashPath), (manifest) => {
+      delete manifest[path.basename(trashPath)];
+    });
+  } catch {
+    // trash directory removed meanwhile
+  }
+}
+
+/**
+ * Permanently delete sessions trashed more than `maxAgeDays` ago in every
+ * project under the given projects directories. Returns how many were purged.
+ */
+export function purgeExpired(projectsDirs: string[], maxAgeDays: number, now: Date = new Date()): number {
+  const cutoff = now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let purged = 0;
+  for (const projectDir of listAllProjectDirs(projectsDirs)) {
+    for (const entry of listTrash(projectDir)) {
+      if (entry.deletedAt.getTime() >= cutoff) {
+        continue;
+      }
+      try {
+        purgeDeleted(entry);
+        purged++;
+      } catch {
+        // locked (EBUSY/EPERM on Windows) — retried on the next purge
+      }
+    }
+  }
+  return purged;
+}
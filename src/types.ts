@@ -1,38 +1,94 @@
+/**
+ * What a session is doing, as far as its JSONL file tells:
+ *   - streaming: Claude is generating a response
+ *   - runningTool: a tool call is executing
+ *   - awaitingPermission: a tool call is waiting for the user to approve it
+ *   - awaitingUser: Claude finished its turn recently
+ *   - completed: the last turn ended and the session has been quiet since
+ *   - interrupted: the user interrupted the request
+ *   - errored: the request failed (refusal, API error)
+ *   - stale: an active state with no messages for the stale threshold
+ */
+export type SessionState =
+  | "streaming"
+  | "runningTool"
+  | "awaitingPermission"
+  | "awaitingUser"
+  | "completed"
+  | "interrupted"
+  | "errored"
+  | "stale";
+
+/**
+ * Cause of an errored session (or of the retries of a running one).
+ */
+export type ErrorKind = "rateLimit" | "overloaded" | "api" | "refusal";
+
 export interface ConversationMeta {
   sessionId: string;
   title: string;
   timestamp: Date;
   filePath: string;
-  messageCount: number;
+  messageCount: number; // real user/assistant turns (excludes meta, sidechain and tool_result records)
+  toolCallCount: number;
+  subAgentCount: number; // Task/Agent tool invocations in the main chain
+  usageByModel: Record<string, TokenUsage>; // keyed by model id, includes sub-agent usage
+  usageBuckets: Record<string, TokenUsage>; // keyed by day/model/branch (see usageBucketKey)
   model?: string;
   gitBranch?: string;
   projectPath: string;
   projectDir: string;
+  profile?: string; // label of the Claude data directory, set when several are configured
   isPinned: boolean;
-  isWaiting: boolean; // last message is from user → waiting for response
-  isToolUseWaiting: boolean; // last assistant message has tool_use without tool_result → waiting for permission
+  state: SessionState;
+  stateReason: string; // human-readable explanation of the state, shown in the tooltip
+  error?: string; // API error text recorded by Claude Code (also set while retrying)
+  errorKind?: ErrorKind;
+  isWaiting: boolean; // state is streaming or runningTool
+  isToolUseWaiting: boolean; // state is awaitingPermission
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheCreation: number;
+  cacheRead: number;
 }
 
 export interface JnsonlMessage {
   type: "user" | "assistant" | "file-history-snapshot" | "queue-operation" | "custom-title";
   sessionId?: string;
+  uuid?: string;
+  parentUuid?: string | null; // previous record in the chain; null for the first record of a (sub-)conversation
   timestamp?: string;
   isMeta?: boolean;
   isSidechain?: boolean;
+  isApiErrorMessage?: boolean; // synthetic assistant message reporting a failed API request
   gitBranch?: string;
   customTitle?: string; // present when type === "custom-title"
   toolUseResult?: unknown; // present on user messages that are tool_result responses
   message?: {
     role: string;
+    id?: string; // API message id, shared by the records of one streamed assistant message
     content: string | ContentBlock[];
     model?: string;
     stop_reason?: string | null; // null = streaming/intermediate, "end_turn" = done, "tool_use" = tool call
-    usage?: { output_tokens?: number };
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
   };
 }
 
 export interface ContentBlock {
   type: string;
   text?: string;
+  id?: string; // tool_use id, referenced by the matching tool_result
   name?: string; // tool name for tool_use blocks
+  input?: unknown; // tool arguments for tool_use blocks
+  tool_use_id?: string; // present on tool_result blocks
+  content?: string | ContentBlock[]; // tool_result output
+  is_error?: boolean; // tool_result failed
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PRICING,
+  findPricing,
+  estimateCost,
+  sumUsage,
+  formatTokenCount,
+  formatCost,
+} from "./usage";
+import { matchesGlob } from "./glob";
+
+function usage(input: number, output: number, cacheCreation = 0, cacheRead = 0) {
+  return { input, output, cacheCreation, cacheRead };
+}
+
+describe("matchesGlob", () => {
+  it("matches * and ? wildcards against the whole value", () => {
+    expect(matchesGlob("mcp__*", "mcp__github__create_issue")).toBe(true);
+    expect(matchesGlob("mcp__*", "xmcp__a")).toBe(false);
+    expect(matchesGlob("Bas?", "Bash")).toBe(true);
+    expect(matchesGlob("a.b", "axb")).toBe(false);
+  });
+});
+
+describe("findPricing", () => {
+  it("uses the most specific matching pattern", () => {
+    expect(findPricing("claude-opus-4-5-20251101", DEFAULT_PRICING)?.input).toBe(5);
+    expect(findPricing("claude-opus-4-1-20250805", DEFAULT_PRICING)?.input).toBe(15);
+    expect(findPricing("claude-3-5-haiku-20241022", DEFAULT_PRICING)?.input).toBe(0.8);
+    expect(findPricing("gpt-4", DEFAULT_PRICING)).toBeUndefined();
+  });
+
+  it("lets a user pattern override a broader default listed before it", () => {
+    // VSCode merges the user's entries after the default keys
+    const table = {
+      ...DEFAULT_PRICING,
+      "claude-sonnet-4-5*": { input: 4, output: 20, cacheWrite: 5, cacheRead: 0.4 },
+    };
+    expect(findPricing("claude-sonnet-4-5-20250929", table)?.input).toBe(4);
+    expect(findPricing("claude-sonnet-4-20250514", table)?.input).toBe(3);
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices every token kind per model and reports unpriced models", () => {
+    const table = {
+      "model-a": { input: 10, output: 20, cacheWrite: 5, cacheRead: 1 },
+    };
+    const result = estimateCost(
+      {
+        "model-a": usage(1_000_000, 500_000, 200_000, 2_000_000),
+        "model-b": usage(100, 100),
+        "model-c": usage(0, 0),
+      },
+      table
+    );
+    // 10 + 10 + 1 + 2
+    expect(result.cost).toBeCloseTo(23);
+    expect(result.unpricedModels).toEqual(["model-b"]);
+  });
+});
+
+describe("sumUsage", () => {
+  it("adds usage across models", () => {
+    expect(sumUsage({ a: usage(1, 2, 3, 4), b: usage(10, 20, 30, 40) })).toEqual(
+      usage(11, 22, 33, 44)
+    );
+  });
+});
+
+describe("formatting", () => {
+  it("formats token counts compactly", () => {
+    expect(formatTokenCount(999)).toBe("999");
+    expect(formatTokenCount(12_345)).toBe("12.3k");
+    expect(formatTokenCount(1_500_000)).toBe("1.5M");
+  });
+
+  it("formats costs in dollars", () => {
+    expect(formatCost(0)).toBe("$0.00");
+    expect(formatCost(0.004)).toBe("<$0.01");
+    expect(formatCost(3.456)).toBe("$3.46");
+  });
+});
@@ -0,0 +1,155 @@
+import { TokenUsage } from "./types";
+import { matchesGlob } from "./glob";
+
+/**
+ * USD per million tokens.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/**
+ * Model glob pattern → pricing. The most specific matching pattern wins
+ * (see findPricing).
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+// Keep in sync with the default of claudeConversations.pricing in package.json
+export const DEFAULT_PRICING: PricingTable = {
+  "claude-opus-4-5*": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-*": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-*": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5*": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-*haiku*": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+export function emptyUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
+}
+
+/**
+ * Add (or with sign = -1, subtract) `usage` into `target` in place.
+ */
+export function addUsage(target: TokenUsage, usage: TokenUsage, sign: number = 1): void {
+  target.input += sign * usage.input;
+  target.output += sign * usage.output;
+  target.cacheCreation += sign * usage.cacheCreation;
+  target.cacheRead += sign * usage.cacheRead;
+}
+
+export function cloneUsageMap(
+  usageMap: Record<string, TokenUsage>
+): Record<string, TokenUsage> {
+  return Object.fromEntries(
+    Object.entries(usageMap).map(([key, u]) => [key, { ...u }])
+  );
+}
+
+/**
+ * Usage buckets are keyed by local day, model and git branch, joined with
+ * a tab (git refs can't contain control characters).
+ */
+export interface UsageBucket {
+  day: string; // YYYY-MM-DD, local time
+  model: string;
+  gitBranch: string; // "" when unknown
+}
+
+export function usageBucketKey(bucket: UsageBucket): string {
+  return `${bucket.day}\t${bucket.model}\t${bucket.gitBranch}`;
+}
+
+export function parseUsageBucketKey(key: string): UsageBucket {
+  const [day, model, gitBranch] = key.split("\t");
+  return { day, model, gitBranch: gitBranch ?? "" };
+}
+
+export function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function sumUsage(byModel: Record<string, TokenUsage>): TokenUsage {
+  const total = emptyUsage();
+  for (const u of Object.values(byModel)) {
+    addUsage(total, u);
+  }
+  return total;
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.input + usage.output + usage.cacheCreation + usage.cacheRead;
+}
+
+/**
+ * Price of a model: the matching pattern with the most literal (non-wildcard)
+ * characters wins, earlier entries on ties. Key order cannot decide, since
+ * VSCode merges user entries after the default ones.
+ */
+export function findPricing(model: string, table: PricingTable): ModelPricing | undefined {
+  let best: ModelPricing | undefined;
+  let bestLiterals = -1;
+  for (const [pattern, pricing] of Object.entries(table)) {
+    const literals = pattern.replace(/[*?]/g, "").length;
+    if (literals > bestLiterals && matchesGlob(pattern, model)) {
+      best = pricing;
+      bestLiterals = literals;
+    }
+  }
+  return best;
+}
+
+export function usageCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return (
+    (usage.input * pricing.input +
+      usage.output * pricing.output +
+      usage.cacheCreation * pricing.cacheWrite +
+      usage.cacheRead * pricing.cacheRead) /
+    1_000_000
+  );
+}
+
+export interface CostEstimate {
+  cost: number;
+  unpricedModels: string[]; // models with usage but no matching price entry
+}
+
+export function estimateCost(
+  byModel: Record<string, TokenUsage>,
+  table: PricingTable
+): CostEstimate {
+  let cost = 0;
+  const unpricedModels: string[] = [];
+  for (const [model, usage] of Object.entries(byModel)) {
+    const pricing = findPricing(model, table);
+    if (pricing) {
+      cost += usageCost(usage, pricing);
+    } else if (totalTokens(usage) > 0) {
+      unpricedModels.push(model);
+    }
+  }
+  return { cost, unpricedModels };
+}
+
+export function formatTokenCount(n: number): string {
+  if (n < 1000) return `${n}`;
+  if (n < 1_000_000) return `${(n / 1000).toFixed(1)}k`;
+  return `${(n / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
+
+export function formatUsage(usage: TokenUsage): string {
+  return [
+    `${formatTokenCount(usage.input)} in`,
+    `${formatTokenCount(usage.output)} out`,
+    `${formatTokenCount(usage.cacheRead)} cache read`,
+    `${formatTokenCount(usage.cacheCreation)} cache write`,
+  ].join(" · ");
+}
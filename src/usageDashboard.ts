@@ -0,0 +1,220 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { ConversationMeta } from "./types";
+import { PricingTable } from "./usage";
+import { aggregateUsage, lastDays, DateRange } from "./usageReport";
+
+type RangeMessage = {
+  type: "range";
+  preset: string; // number of days, "all" or "custom"
+  from?: string;
+  to?: string;
+};
+
+/**
+ * Webview panel charting token usage and estimated cost from local session
+ * data. Aggregation lives in usageReport.ts; this class only moves data
+ * between the extension and the page. The page renders with inline
+ * script/CSS only — no network access.
+ */
+export class UsageDashboard {
+  private static current: UsageDashboard | undefined;
+
+  private range: DateRange = lastDays(30);
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly loadConversations: () => Promise<ConversationMeta[]>,
+    private readonly getPricing: () => PricingTable
+  ) {
+    const nonce = crypto.randomBytes(16).toString("hex");
+    panel.webview.html = this.renderHtml(nonce);
+    panel.webview.onDidReceiveMessage((msg: RangeMessage | { type: "ready" }) => {
+      if (msg.type === "range") {
+        this.range =
+          msg.preset === "custom"
+            ? { from: msg.from || undefined, to: msg.to || undefined }
+            : lastDays(msg.preset === "all" ? undefined : Number(msg.preset));
+      }
+      void this.update();
+    });
+    panel.onDidDispose(() => {
+      UsageDashboard.current = undefined;
+    });
+  }
+
+  static show(
+    loadConversations: () => Promise<ConversationMeta[]>,
+    getPricing: () => PricingTable
+  ): void {
+    if (UsageDashboard.current) {
+      UsageDashboard.current.panel.reveal();
+      void UsageDashboard.current.update();
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(
+      "claudeUsageDashboard",
+      "Claude Usage Dashboard",
+      vscode.ViewColumn.Active,
+      { enableScripts: true, localResourceRoots: [] }
+    );
+    UsageDashboard.current = new UsageDashboard(panel, loadConversations, getPricing);
+  }
+
+  private async update(): Promise<void> {
+    try {
+      const conversations = await this.loadConversations();
+      const report = aggregateUsage(conversations, this.range, this.getPricing());
+      await this.panel.webview.postMessage({ type: "report", report });
+    } catch (err) {
+      await this.panel.webview.postMessage({ type: "error", message: String(err) });
+    }
+  }
+
+  private renderHtml(nonce: string): string {
+    const csp = [
+      "default-src 'none'",
+      "style-src 'unsafe-inline'",
+      `script-src 'nonce-${nonce}'`,
+    ].join("; ");
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>
+body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); padding: 0 1.5em 2em; }
+.controls { display: flex; gap: 0.8em; align-items: center; flex-wrap: wrap; margin: 1em 0; }
+select, input, button { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 6px; }
+.cards { display: flex; gap: 1em; flex-wrap: wrap; }
+.card { border: 1px solid var(--vscode-panel-border); border-radius: 4px; padding: 0.6em 1em; min-width: 9em; }
+.card .value { font-size: 1.5em; font-weight: 600; }
+.card .label { opacity: 0.7; }
+h2 { font-size: 1.1em; margin-top: 1.8em; }
+.days { display: flex; align-items: flex-end; gap: 2px; height: 160px; border-bottom: 1px solid var(--vscode-panel-border); }
+.days .col { flex: 1; background: var(--vscode-charts-blue); min-height: 1px; }
+.days .col.empty { background: transparent; }
+.axis { display: flex; justify-content: space-between; opacity: 0.7; font-size: 0.85em; }
+table { border-collapse: collapse; width: 100%; }
+td { padding: 2px 6px; white-space: nowrap; }
+td.bar { width: 50%; }
+td.bar div { background: var(--vscode-charts-purple); height: 0.9em; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.note, .error { opacity: 0.8; margin-top: 1em; }
+.error { color: var(--vscode-errorForeground); }
+</style>
+</head>
+<body>
+<div class="controls">
+  <label>Range
+    <select id="preset">
+      <option value="7">Last 7 days</option>
+      <option value="30" selected>Last 30 days</option>
+      <option value="90">Last 90 days</option>
+      <option value="all">All time</option>
+      <option value="custom">Custom…</option>
+    </select>
+  </label>
+  <span id="custom" hidden>
+    <input type="date" id="from"> – <input type="date" id="to">
+    <button id="apply">Apply</button>
+  </span>
+  <label>Show
+    <select id="metric">
+      <option value="cost">Estimated cost</option>
+      <option value="tokens">Tokens</option>
+    </select>
+  </label>
+</div>
+<div id="content">Loading…</div>
+<script nonce="${nonce}">
+(function () {
+  const vscode = acquireVsCodeApi();
+  const $ = (id) => document.getElementById(id);
+  let report;
+
+  function esc(s) {
+    return String(s).replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+  }
+  function fmtTokens(n) {
+    if (n < 1000) return String(n);
+    if (n < 1e6) return (n / 1000).toFixed(1) + "k";
+    return (n / 1e6).toFixed(1) + "M";
+  }
+  function fmtCost(n) {
+    return n > 0 && n < 0.01 ? "<$0.01" : "$" + n.toFixed(2);
+  }
+  function value(row) {
+    return $("metric").value === "cost" ? row.cost : row.tokens;
+  }
+  function fmt(row) {
+    return $("metric").value === "cost" ? fmtCost(row.cost) : fmtTokens(row.tokens);
+  }
+
+  function table(rows) {
+    if (rows.length === 0) return "<p class='note'>No usage in this range.</p>";
+    const max = Math.max(...rows.map(value), 0) || 1;
+    return "<table>" + rows.map((r) =>
+      "<tr><td>" + esc(r.key) + "</td><td class='bar'><div style='width:" + (value(r) / max * 100).toFixed(1) + "%'></div></td>" +
+      "<td class='num'>" + fmtCost(r.cost) + "</td><td class='num'>" + fmtTokens(r.tokens) + " tok</td></tr>"
+    ).join("") + "</table>";
+  }
+
+  function days(rows) {
+    if (rows.length === 0) return "<p class='note'>No usage in this range.</p>";
+    const max = Math.max(...rows.map(value), 0) || 1;
+    const cols = rows.map((r) => {
+      const v = value(r);
+      return "<div class='col" + (v === 0 ? " empty" : "") + "' style='height:" + (v / max * 100).toFixed(1) + "%' title='" +
+        esc(r.key + ": " + fmtCost(r.cost) + ", " + fmtTokens(r.tokens) + " tokens") + "'></div>";
+    }).join("");
+    return "<div class='days'>" + cols + "</div><div class='axis'><span>" + esc(rows[0].key) + "</span><span>" + esc(rows[rows.length - 1].key) + "</span></div>";
+  }
+
+  function render() {
+    if (!report) return;
+    const t = report.total;
+    let html = "<div class='cards'>" +
+      "<div class='card'><div class='value'>" + fmtCost(t.cost) + "</div><div class='label'>estimated cost</div></div>" +
+      "<div class='card'><div class='value'>" + fmtTokens(t.tokens) + "</div><div class='label'>tokens</div></div>" +
+      "<div class='card'><div class='value'>" + fmtTokens(t.usage.input) + " / " + fmtTokens(t.usage.output) + "</div><div class='label'>input / output</div></div>" +
+      "<div class='card'><div class='value'>" + fmtTokens(t.usage.cacheRead) + " / " + fmtTokens(t.usage.cacheCreation) + "</div><div class='label'>cache read / write</div></div>" +
+      "<div class='card'><div class='value'>" + report.sessionCount + "</div><div class='label'>sessions</div></div>" +
+      "</div>";
+    html += "<h2>Per day</h2>" + days(report.byDay);
+    html += "<h2>Per model</h2>" + table(report.byModel);
+    html += "<h2>Per git branch</h2>" + table(report.byBranch);
+    html += "<h2>Per project</h2>" + table(report.byProject);
+    if (report.unpricedModels.length > 0) {
+      html += "<p class='note'>No price configured for: " + esc(report.unpricedModels.join(", ")) +
+        " (claudeConversations.pricing). Their cost is counted as $0.</p>";
+    }
+    $("content").innerHTML = html;
+  }
+
+  function sendRange() {
+    const preset = $("preset").value;
+    $("custom").hidden = preset !== "custom";
+    if (preset === "custom" && !$("from").value && !$("to").value) return;
+    vscode.postMessage({ type: "range", preset, from: $("from").value, to: $("to").value });
+  }
+
+  $("preset").addEventListener("change", sendRange);
+  $("apply").addEventListener("click", sendRange);
+  $("metric").addEventListener("change", render);
+  window.addEventListener("message", (event) => {
+    const msg = event.data;
+    if (msg.type === "report") {
+      report = msg.report;
+      render();
+    } else if (msg.type === "error") {
+      $("content").innerHTML = "<p class='error'>" + esc(msg.message) + "</p>";
+    }
+  });
+  vscode.postMessage({ type: "ready" });
+})();
+</script>
+</body>
+</html>`;
+  }
+}
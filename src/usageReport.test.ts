@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { ConversationMeta, TokenUsage } from "./types";
+import { usageBucketKey } from "./usage";
+import { aggregateUsage, daysBetween, lastDays } from "./usageReport";
+
+const pricing = {
+  "opus*": { input: 10, output: 20, cacheWrite: 0, cacheRead: 0 },
+};
+
+function usage(input: number, output: number): TokenUsage {
+  return { input, output, cacheCreation: 0, cacheRead: 0 };
+}
+
+function conversation(
+  projectPath: string,
+  buckets: [string, string, string, TokenUsage][]
+): ConversationMeta {
+  return {
+    sessionId: Math.random().toString(36).slice(2),
+    title: "t",
+    timestamp: new Date(),
+    filePath: "/tmp/x.jsonl",
+    messageCount: 0,
+    toolCallCount: 0,
+    subAgentCount: 0,
+    usageByModel: {},
+    usageBuckets: Object.fromEntries(
+      buckets.map(([day, model, gitBranch, u]) => [usageBucketKey({ day, model, gitBranch }), u])
+    ),
+    projectPath,
+    projectDir: projectPath.replace(/\//g, "-"),
+    isPinned: false,
+    state: "completed",
+    stateReason: "",
+    isWaiting: false,
+    isToolUseWaiting: false,
+  };
+}
+
+describe("daysBetween", () => {
+  it("lists days inclusively across month boundaries", () => {
+    expect(daysBetween("2026-02-27", "2026-03-02")).toEqual([
+      "2026-02-27", "2026-02-28", "2026-03-01", "2026-03-02",
+    ]);
+    expect(daysBetween("2026-03-02", "2026-03-01")).toEqual([]);
+  });
+});
+
+describe("lastDays", () => {
+  it("ends today and includes it", () => {
+    expect(lastDays(7, new Date(2026, 2, 3, 15))).toEqual({ from: "2026-02-25", to: "2026-03-03" });
+    expect(lastDays(undefined)).toEqual({});
+  });
+});
+
+describe("aggregateUsage", () => {
+  const conversations = [
+    conversation("/Users/me/work/app", [
+      ["2026-02-01", "opus-4", "main", usage(1_000_000, 0)],
+      ["2026-02-03", "opus-4", "feature", usage(0, 1_000_000)],
+    ]),
+    conversation("/Users/me/work/lib", [
+      ["2026-02-03", "haiku", "", usage(500, 500)],
+    ]),
+    conversation("/Users/me/work/old", [
+      ["2026-01-01", "opus-4", "main", usage(100, 100)],
+    ]),
+  ];
+
+  it("groups by day, model, branch and project within the range", () => {
+    const report = aggregateUsage(conversations, { from: "2026-02-01", to: "2026-02-04" }, pricing);
+
+    expect(report.total).toMatchObject({ tokens: 2_001_000, cost: 30 });
+    expect(report.sessionCount).toBe(2);
+    expect(report.byDay.map((r) => [r.key, r.tokens, r.cost])).toEqual([
+      ["2026-02-01", 1_000_000, 10],
+      ["2026-02-02", 0, 0],
+      ["2026-02-03", 1_001_000, 20],
+      ["2026-02-04", 0, 0],
+    ]);
+    expect(report.byModel.map((r) => r.key)).toEqual(["opus-4", "haiku"]);
+    expect(report.byBranch.map((r) => [r.key, r.cost])).toEqual([
+      ["feature", 20],
+      ["main", 10],
+      ["(no branch)", 0],
+    ]);
+    expect(report.byProject.map((r) => r.key)).toEqual(["work/app", "work/lib"]);
+    expect(report.unpricedModels).toEqual(["haiku"]);
+  });
+
+  it("open range spans the first to the last day with usage", () => {
+    const report = aggregateUsage(conversations, {}, pricing);
+    expect(report.byDay[0].key).toBe("2026-01-01");
+    expect(report.byDay[report.byDay.length - 1].key).toBe("2026-02-03");
+    expect(report.sessionCount).toBe(3);
+  });
+
+  it("empty range → zero totals and no days", () => {
+    const report = aggregateUsage([], {}, pricing);
+    expect(report.total).toMatchObject({ tokens: 0, cost: 0 });
+    expect(report.byDay).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { ConversationMeta, TokenUsage } from "./types";
+import {
+  PricingTable,
+  emptyUsage,
+  addUsage,
+  findPricing,
+  usageCost,
+  totalTokens,
+  parseUsageBucketKey,
+  localDay,
+} from "./usage";
+import { getProjectDisplayName } from "./conversationParser";
+
+/**
+ * Inclusive day range (YYYY-MM-DD); open-ended when a bound is missing.
+ */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export interface UsageRow {
+  key: string;
+  usage: TokenUsage;
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  range: DateRange;
+  total: UsageRow;
+  sessionCount: number; // sessions with usage inside the range
+  byDay: UsageRow[]; // ascending, with empty days filled in
+  byModel: UsageRow[]; // descending by cost, then tokens
+  byBranch: UsageRow[];
+  byProject: UsageRow[];
+  unpricedModels: string[];
+}
+
+class RowMap {
+  private rows = new Map<string, UsageRow>();
+
+  add(key: string, usage: TokenUsage, cost: number): void {
+    let row = this.rows.get(key);
+    if (!row) {
+      row = { key, usage: emptyUsage(), tokens: 0, cost: 0 };
+      this.rows.set(key, row);
+    }
+    addUsage(row.usage, usage);
+    row.tokens += totalTokens(usage);
+    row.cost += cost;
+  }
+
+  get(key: string): UsageRow | undefined {
+    return this.rows.get(key);
+  }
+
+  sortedByCost(): UsageRow[] {
+    return Array.from(this.rows.values()).sort(
+      (a, b) => b.cost - a.cost || b.tokens - a.tokens
+    );
+  }
+}
+
+/**
+ * Days from `from` to `to` inclusive (YYYY-MM-DD).
+ */
+export function daysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const date = new Date(fy, fm - 1, fd);
+  for (let i = 0; i < 3660; i++) {
+    const day = localDay(date);
+    if (day > to) break;
+    days.push(day);
+    date.setDate(date.getDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * Preset range ending today: the last `days` days, or everything when undefined.
+ */
+export function lastDays(days: number | undefined, now: Date = new Date()): DateRange {
+  if (days === undefined) {
+    return {};
+  }
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+  return { from: localDay(from), to: localDay(now) };
+}
+
+/**
+ * Aggregate per-session usage buckets into totals per day, model,
+ * git branch and project within the date range.
+ */
+export function aggregateUsage(
+  conversations: ConversationMeta[],
+  range: DateRange,
+  pricing: PricingTable
+): UsageReport {
+  const total = new RowMap();
+  const byDay = new RowMap();
+  const byModel = new RowMap();
+  const byBranch = new RowMap();
+  const byProject = new RowMap();
+  const unpriced = new Set<string>();
+  let sessionCount = 0;
+  let firstDay: string | undefined;
+  let lastDay: string | undefined;
+
+  for (const c of conversations) {
+    const project = getProjectDisplayName(c.projectPath) || c.projectDir;
+    let counted = false;
+    for (const [key, usage] of Object.entries(c.usageBuckets)) {
+      const { day, model, gitBranch } = parseUsageBucketKey(key);
+      if ((range.from && day < range.from) || (range.to && day > range.to)) {
+        continue;
+      }
+      const price = findPricing(model, pricing);
+      if (!price && totalTokens(usage) > 0) {
+        unpriced.add(model);
+      }
+      const cost = price ? usageCost(usage, price) : 0;
+
+      total.add("total", usage, cost);
+      byDay.add(day, usage, cost);
+      byModel.add(model, usage, cost);
+      byBranch.add(gitBranch || "(no branch)", usage, cost);
+      byProject.add(project, usage, cost);
+      counted = true;
+      if (!firstDay || day < firstDay) firstDay = day;
+      if (!lastDay || day > lastDay) lastDay = day;
+    }
+    if (counted) {
+      sessionCount++;
+    }
+  }
+
+  const dayFrom = range.from ?? firstDay;
+  const dayTo = range.to ?? lastDay;
+  const days =
+    dayFrom && dayTo
+      ? daysBetween(dayFrom, dayTo).map(
+          (day) => byDay.get(day) ?? { key: day, usage: emptyUsage(), tokens: 0, cost: 0 }
+        )
+      : [];
+
+  return {
+    range,
+    total: total.get("total") ?? { key: "total", usage: emptyUsage(), tokens: 0, cost: 0 },
+    sessionCount,
+    byDay: days,
+    byModel: byModel.sortedByCost(),
+    byBranch: byBranch.sortedByCost(),
+    byProject: byProject.sortedByCost(),
+    unpricedModels: Array.from(unpriced).sort(),
+  };
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  fileUriToPath,
+  findWorkspaceStorageDir,
+  workspaceStorageRoots,
+  locateWorkspaceStorageDir,
+  StorageLocator,
+} from "./workspaceStorage";
+
+// --- helpers ---
+
+const tmpDirs: string[] = [];
+
+function createTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "workspaceStorage-test-"));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function addStorage(root: string, hash: string, workspaceJson: unknown): string {
+  const dir = path.join(root, hash);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "workspace.json"), JSON.stringify(workspaceJson));
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("fileUriToPath", () => {
+  it("decodes percent-encoded characters", () => {
+    expect(fileUriToPath("file:///Users/me/My%20Project")).toBe("/Users/me/My Project");
+    expect(fileUriToPath("file:///home/me/%E3%82%A2%E3%83%97%E3%83%AA")).toBe("/home/me/アプリ");
+  });
+
+  it("handles Windows drive letters and UNC hosts", () => {
+    expect(fileUriToPath("file:///c%3A/Users/me/repo")).toBe("c:/Users/me/repo");
+    expect(fileUriToPath("file://server/share/repo")).toBe("//server/share/repo");
+  });
+
+  it("rejects non-file URIs", () => {
+    expect(fileUriToPath("vscode-remote://ssh-remote%2Bhost/home/me")).toBeUndefined();
+  });
+});
+
+describe("findWorkspaceStorageDir", () => {
+  it("matches a single folder by its folder URI", () => {
+    const root = createTempDir();
+    addStorage(root, "aaa", { folder: "file:///home/me/other" });
+    const dir = addStorage(root, "bbb", { folder: "file:///home/me/My%20Repo" });
+
+    expect(findWorkspaceStorageDir(root, { kind: "folder", path: "/home/me/My Repo" })).toBe(dir);
+  });
+
+  it("matches a multi-root workspace by its .code-workspace file", () => {
+    const root = createTempDir();
+    addStorage(root, "aaa", { folder: "file:///home/me/mono/api" });
+    const dir = addStorage(root, "bbb", { workspace: "file:///home/me/mono/mono.code-workspace" });
+
+    expect(
+      findWorkspaceStorageDir(root, { kind: "workspace", path: "/home/me/mono/mono.code-workspace" })
+    ).toBe(dir);
+    // A folder target never matches a workspace entry, and vice versa
+    expect(findWorkspaceStorageDir(root, { kind: "folder", path: "/home/me/mono/mono.code-workspace" })).toBeUndefined();
+    expect(findWorkspaceStorageDir(root, { kind: "workspace", path: "/home/me/mono/api" })).toBeUndefined();
+  });
+
+  it("skips entries without a readable workspace.json", () => {
+    const root = createTempDir();
+    fs.mkdirSync(path.join(root, "empty"));
+    fs.mkdirSync(path.join(root, "broken"));
+    fs.writeFileSync(path.join(root, "broken", "workspace.json"), "{not json");
+
+    expect(findWorkspaceStorageDir(root, { kind: "folder", path: "/x" })).toBeUndefined();
+    expect(findWorkspaceStorageDir(path.join(root, "missing"), { kind: "folder", path: "/x" })).toBeUndefined();
+  });
+});
+
+describe("workspaceStorageRoots", () => {
+  function storageRoot(...parts: string[]): string {
+    return path.join(...parts, "User", "workspaceStorage");
+  }
+
+  it("uses the platform's application data directory", () => {
+    const home = "/home/me";
+    expect(workspaceStorageRoots({ platform: "darwin", home, env: {} })[0]).toBe(
+      storageRoot(home, "Library", "Application Support", "Code")
+    );
+    expect(workspaceStorageRoots({ platform: "linux", home, env: {} })[0]).toBe(
+      storageRoot(home, ".config", "Code")
+    );
+    expect(workspaceStorageRoots({ platform: "linux", home, env: { XDG_CONFIG_HOME: "/xdg" } })[0]).toBe(
+      storageRoot("/xdg", "Code")
+    );
+    expect(workspaceStorageRoots({ platform: "win32", home, env: { APPDATA: "/appdata" } })[0]).toBe(
+      storageRoot("/appdata", "Code")
+    );
+    expect(workspaceStorageRoots({ platform: "win32", home, env: {} })[0]).toBe(
+      storageRoot(home, "AppData", "Roaming", "Code")
+    );
+  });
+
+  it("tries a portable install, then the running product, then the other products", () => {
+    const roots = workspaceStorageRoots({
+      platform: "linux",
+      home: "/home/me",
+      env: { VSCODE_PORTABLE: "/opt/vscode/data" },
+      appName: "Cursor",
+    });
+    expect(roots.slice(0, 3)).toEqual([
+      storageRoot("/opt/vscode/data", "user-data"),
+      storageRoot("/home/me/.config", "Cursor"),
+      storageRoot("/home/me/.config", "Code"),
+    ]);
+    expect(roots).toContain(storageRoot("/home/me/.config", "Code - Insiders"));
+    expect(roots).toContain(storageRoot("/home/me/.config", "VSCodium"));
+  });
+});
+
+describe("locateWorkspaceStorageDir", () => {
+  const target = { kind: "folder", path: "/home/me/repo" } as const;
+
+  it("finds the workspace in any product's storage on a fake Linux tree", () => {
+    const home = createTempDir();
+    addStorage(path.join(home, ".config", "Code", "User", "workspaceStorage"), "aaa", {
+      folder: "file:///home/me/other",
+    });
+    const dir = addStorage(path.join(home, ".config", "VSCodium", "User", "workspaceStorage"), "bbb", {
+      folder: "file:///home/me/repo",
+    });
+    const locator: StorageLocator = { platform: "linux", home, env: {}, appName: "Visual Studio Code" };
+
+    expect(locateWorkspaceStorageDir(locator, target)).toBe(dir);
+  });
+
+  it("finds the workspace under %APPDATA% on a fake Windows tree", () => {
+    const appData = createTempDir();
+    const dir = addStorage(path.join(appData, "Code - Insiders", "User", "workspaceStorage"), "ccc", {
+      folder: "file:///home/me/repo",
+    });
+    const locator: StorageLocator = { platform: "win32", home: "/nowhere", env: { APPDATA: appData } };
+
+    expect(locateWorkspaceStorageDir(locator, target)).toBe(dir);
+  });
+
+  it("prefers the directory derived from context.storageUri", () => {
+    const userData = createTempDir();
+    const root = path.join(userData, "User", "workspaceStorage");
+    const dir = addStorage(root, "ddd", {});
+    const locator: StorageLocator = {
+      platform: "linux",
+      home: "/nowhere",
+      env: {},
+      storageUri: path.join(dir, "publisher.extension"),
+    };
+
+    expect(locateWorkspaceStorageDir(locator, target)).toBe(dir);
+    // A storageUri outside a workspaceStorage tree is ignored
+    expect(
+      locateWorkspaceStorageDir({ ...locator, storageUri: path.join(userData, "x", "publisher.extension") }, target)
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+import * as fs from "fs";
+import * as path from "path";
+import { samePath } from "./projectPaths";
+import { SqliteDatabase } from "./sqliteReader";
+
+/**
+ * What a VSCode window has open: a single folder, or a (multi-root)
+ * workspace described by a .code-workspace file. Untitled multi-root
+ * workspaces also have a file, under the user data's Workspaces directory.
+ */
+export type WorkspaceTarget =
+  | { kind: "folder"; path: string }
+  | { kind: "workspace"; path: string };
+
+/**
+ * Convert a file:// URI as stored in workspace.json to a file system path.
+ */
+export function fileUriToPath(uri: string): string | undefined {
+  const match = /^file:\/\/([^/]*)(\/.*)$/.exec(uri);
+  if (!match) {
+    return undefined;
+  }
+  const [, host, rawPath] = match;
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(rawPath);
+  } catch {
+    return undefined;
+  }
+  if (host) {
+    return `//${host}${decoded}`; // UNC path
+  }
+  // "/c:/Users/me" → "c:/Users/me"
+  return /^\/[a-zA-Z]:/.test(decoded) ? decoded.slice(1) : decoded;
+}
+
+/**
+ * Find the workspaceStorage subdirectory VSCode uses for `target` by
+ * matching the `folder` or `workspace` URI in each workspace.json.
+ */
+export function findWorkspaceStorageDir(
+  storageRoot: string,
+  target: WorkspaceTarget
+): string | undefined {
+  let dirs: string[];
+  try {
+    dirs = fs.readdirSync(storageRoot);
+  } catch {
+    return undefined;
+  }
+  for (const dir of dirs) {
+    const wsJsonPath = path.join(storageRoot, dir, "workspace.json");
+    try {
+      const wsJson = JSON.parse(fs.readFileSync(wsJsonPath, "utf8"));
+      const uri = target.kind === "folder" ? wsJson.folder : wsJson.workspace;
+      const storedPath = typeof uri === "string" ? fileUriToPath(uri) : undefined;
+      if (storedPath && samePath(storedPath, target.path)) {
+        return path.join(storageRoot, dir);
+      }
+    } catch {
+      // skip
+    }
+  }
+  return undefined;
+}
+
+/**
+ * User data folder names of VSCode and its forks (under the platform's
+ * application data directory), keyed by `vscode.env.appName`.
+ */
+export const PRODUCT_FOLDERS: Record<string, string> = {
+  "Visual Studio Code": "Code",
+  "Visual Studio Code - Insiders": "Code - Insiders",
+  "VSCodium": "VSCodium",
+  "VSCodium - Insiders": "VSCodium - Insiders",
+  "Cursor": "Cursor",
+  "Code - OSS": "Code - OSS",
+};
+
+/**
+ * Where to look for workspaceStorage. Everything but the platform is
+ * optional so the lookup can be tested against fake directory trees.
+ */
+export interface StorageLocator {
+  platform: NodeJS.Platform;
+  home: string;
+  env: NodeJS.ProcessEnv;
+  appName?: string; // vscode.env.appName, tried first
+  storageUri?: string; // fsPath of the extension's context.storageUri
+}
+
+/**
+ * The platform's application data directory that product folders live in.
+ */
+function appDataRoot(locator: StorageLocator): string {
+  const { platform, home, env } = locator;
+  if (env.VSCODE_APPDATA) {
+    return env.VSCODE_APPDATA;
+  }
+  if (platform === "darwin") {
+    return path.join(home, "Library", "Application Support");
+  }
+  if (platform === "win32") {
+    return env.APPDATA || path.join(home, "AppData", "Roaming");
+  }
+  return env.XDG_CONFIG_HOME || path.join(home, ".config");
+}
+
+/**
+ * Candidate workspaceStorage directories, most specific first: a portable
+ * install, then the running product's folder, then every other known product.
+ */
+export function workspaceStorageRoots(locator: StorageLocator): string[] {
+  const roots: string[] = [];
+  if (locator.env.VSCODE_PORTABLE) {
+    roots.push(path.join(locator.env.VSCODE_PORTABLE, "user-data", "User", "workspaceStorage"));
+  }
+  const appData = appDataRoot(locator);
+  const current = locator.appName ? (PRODUCT_FOLDERS[locator.appName] ?? locator.appName) : undefined;
+  const folders = current
+    ? [current, ...Object.values(PRODUCT_FOLDERS).filter((f) => f !== current)]
+    : Object.values(PRODUCT_FOLDERS);
+  for (const folder of folders) {
+    roots.push(path.join(appData, folder, "User", "workspaceStorage"));
+  }
+  return roots;
+}
+
+/**
+ * The workspace storage directory of the running window. context.storageUri
+ * is `<workspaceStorage>/<id>/<extension id>`, so its parent is the answer
+ * even with a custom --user-data-dir; otherwise the known locations are
+ * searched by workspace.json.
+ */
+export function locateWorkspaceStorageDir(
+  locator: StorageLocator,
+  target: WorkspaceTarget
+): string | undefined {
+  if (locator.storageUri) {
+    const dir = path.dirname(locator.storageUri);
+    if (path.basename(path.dirname(dir)) === "workspaceStorage" && fs.existsSync(dir)) {
+      return dir;
+    }
+  }
+  for (const root of workspaceStorageRoots(locator)) {
+    const dir = findWorkspaceStorageDir(root, target);
+    if (dir) {
+      return dir;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read one value from the key/value table of a state.vscdb database
+ * (workspace or global storage). Undefined when the key is missing.
+ */
+export async function readStorageValue(dbPath: string, key: string): Promise<string | undefined> {
+  const db = await SqliteDatabase.open(dbPath);
+  const row = db.rows("ItemTable").find((r) => r[0] === key);
+  const value = row?.[1];
+  if (typeof value === "string") {
+    return value;
+  }
+  return Buffer.isBuffer(value) ? value.toString("utf8") : undefined;
+}